@@ -0,0 +1,119 @@
+import { stringify } from "yaml";
+
+export type BaseSortDirection = "ASC" | "DESC";
+
+export type BaseFilter = string | BaseFilterGroup;
+
+export type BaseFilterGroup =
+  { and: BaseFilter[] } | { or: BaseFilter[] } | { not: BaseFilter[] };
+
+export type BaseSort = {
+  property: string;
+  direction: BaseSortDirection;
+};
+
+export type BaseGroupBy = {
+  property: string;
+  direction: BaseSortDirection;
+};
+
+export type BaseViewOptionValue = string | number | boolean;
+
+export type BaseView = {
+  type: string;
+  name: string;
+  filters?: BaseFilterGroup;
+  groupBy?: BaseGroupBy;
+  order?: string[];
+  sort?: BaseSort[];
+  /** Plugin view options, stored next to the built-in view keys. */
+  options?: Record<string, BaseViewOptionValue>;
+};
+
+export type BaseFile = {
+  filters?: BaseFilterGroup;
+  views: BaseView[];
+};
+
+const PLAIN_PROPERTY_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Reference a note property inside a filter expression. Names that are not
+ * plain identifiers (spaces, dashes, colons, ...) use the bracket form.
+ */
+export function formatPropertyReference(property: string): string {
+  return PLAIN_PROPERTY_REGEX.test(property)
+    ? property
+    : `note[${JSON.stringify(property)}]`;
+}
+
+/**
+ * Property id for view settings such as `groupBy`, `order` and `sort`. The
+ * bracket form is only valid inside filter expressions, so names that are not
+ * plain identifiers get the `note.` prefix instead.
+ */
+export function formatPropertyId(property: string): string {
+  return PLAIN_PROPERTY_REGEX.test(property) ? property : `note.${property}`;
+}
+
+export function containsExpression(property: string, value: string): string {
+  return `${formatPropertyReference(property)}.contains(${JSON.stringify(value)})`;
+}
+
+/**
+ * Exact membership test that also accepts a plain text value, which `list()`
+ * wraps into a one-item list.
+ */
+export function listContainsExpression(
+  property: string,
+  value: string,
+): string {
+  return `list(${formatPropertyReference(property)}).contains(${JSON.stringify(value)})`;
+}
+
+export function equalsExpression(
+  property: string,
+  value: string | number | boolean,
+): string {
+  return `${formatPropertyReference(property)} == ${JSON.stringify(value)}`;
+}
+
+export function inFolderExpression(folderPath: string): string {
+  return `file.inFolder(${JSON.stringify(folderPath)})`;
+}
+
+function serializeView(view: BaseView): Record<string, unknown> {
+  const serialized: Record<string, unknown> = {
+    type: view.type,
+    name: view.name,
+  };
+  if (view.filters !== undefined) {
+    serialized.filters = view.filters;
+  }
+  if (view.groupBy !== undefined) {
+    serialized.groupBy = view.groupBy;
+  }
+  if (view.order !== undefined && view.order.length > 0) {
+    serialized.order = view.order;
+  }
+  if (view.sort !== undefined && view.sort.length > 0) {
+    serialized.sort = view.sort;
+  }
+  for (const [key, value] of Object.entries(view.options ?? {})) {
+    if (!(key in serialized)) {
+      serialized[key] = value;
+    }
+  }
+
+  return serialized;
+}
+
+export function serializeBaseFile(baseFile: BaseFile): string {
+  const serialized: Record<string, unknown> = {};
+  if (baseFile.filters !== undefined) {
+    serialized.filters = baseFile.filters;
+  }
+  serialized.views = baseFile.views.map(serializeView);
+
+  return stringify(serialized, { aliasDuplicateObjects: false, lineWidth: 0 });
+}
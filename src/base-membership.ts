@@ -0,0 +1,332 @@
+import { parse } from "yaml";
+
+import type { BaseFilter } from "./base-file";
+import { NO_VALUE_COLUMN_KEY } from "./kanban-view/constants";
+
+/** What a filter can be checked against without running the base query. */
+export type NoteSnapshot = {
+  path: string;
+  frontmatter: Record<string, unknown>;
+  /** Tags without the leading `#`. */
+  tags: string[];
+};
+
+export type BaseKanbanView = {
+  name: string;
+  /** Frontmatter key the view groups its columns by. */
+  groupByKey: string;
+  /** Column values saved in the view's column order, without "no value". */
+  columnOrder: string[];
+  /** Base and view filters; a note has to pass all of them. */
+  filters: BaseFilter[];
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const STRING_LITERAL = String.raw`"(?:[^"\\]|\\.)*"`;
+const LITERAL = String.raw`(?:${STRING_LITERAL}|-?\d+(?:\.\d+)?|true|false)`;
+const PROPERTY = String.raw`(?:note\[${STRING_LITERAL}\]|(?:note\.)?[A-Za-z_][A-Za-z0-9_]*)`;
+const LIST_CONTAINS_REGEX = new RegExp(
+  String.raw`^list\((${PROPERTY})\)\.contains\((${LITERAL})\)$`,
+);
+const CONTAINS_REGEX = new RegExp(
+  String.raw`^(${PROPERTY})\.contains\((${LITERAL})\)$`,
+);
+const COMPARISON_REGEX = new RegExp(
+  String.raw`^(${PROPERTY})\s*(==|!=)\s*(${LITERAL})$`,
+);
+const IN_FOLDER_REGEX = new RegExp(
+  String.raw`^file\.inFolder\((${STRING_LITERAL})\)$`,
+);
+const HAS_TAG_REGEX = new RegExp(
+  String.raw`^file\.hasTag\((${STRING_LITERAL}(?:\s*,\s*${STRING_LITERAL})*)\)$`,
+);
+const RESERVED_PROPERTY_NAMES = new Set(["file", "formula", "this"]);
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getString(record: UnknownRecord, key: string): string | null {
+  const value = record[key];
+  return typeof value === "string" ? value : null;
+}
+
+function toFilterList(value: unknown): BaseFilter[] {
+  return value === undefined || value === null ? [] : [value as BaseFilter];
+}
+
+/**
+ * Frontmatter key of a note property referenced as `status`, `note.status` or
+ * `note["due date"]`. File properties and formulas are not writable.
+ */
+export function getNotePropertyKey(reference: string): string | null {
+  if (reference.startsWith('note["')) {
+    try {
+      const key = JSON.parse(reference.slice("note[".length, -1)) as unknown;
+      return typeof key === "string" && key.length > 0 ? key : null;
+    } catch {
+      return null;
+    }
+  }
+  const key = reference.startsWith("note.")
+    ? reference.slice("note.".length)
+    : reference;
+  if (
+    key.length === 0 ||
+    key.includes(".") ||
+    RESERVED_PROPERTY_NAMES.has(key)
+  ) {
+    return null;
+  }
+  return key;
+}
+
+/**
+ * Scalar frontmatter value the way a column shows it. Lists and empty values
+ * have no single column.
+ */
+export function getFrontmatterColumnValue(value: unknown): string | null {
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length === 0 ? null : trimmed;
+}
+
+/** Kanban views of a `.base` file that group by a note property. */
+export function readKanbanViews(
+  content: string,
+  viewType: string,
+): BaseKanbanView[] {
+  let parsed: unknown;
+  try {
+    parsed = parse(content);
+  } catch {
+    return [];
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.views)) {
+    return [];
+  }
+
+  const baseFilters = toFilterList(parsed.filters);
+  const views: BaseKanbanView[] = [];
+  for (const view of parsed.views as unknown[]) {
+    if (!isRecord(view) || getString(view, "type") !== viewType) {
+      continue;
+    }
+    const groupBy = view.groupBy;
+    const groupByProperty = isRecord(groupBy)
+      ? getString(groupBy, "property")
+      : null;
+    const groupByKey =
+      groupByProperty === null ? null : getNotePropertyKey(groupByProperty);
+    if (groupByKey === null) {
+      continue;
+    }
+
+    const columnOrder = getString(view, "columnOrder") ?? "";
+    views.push({
+      name: getString(view, "name") ?? "",
+      groupByKey,
+      columnOrder: columnOrder
+        .split(",")
+        .map((columnKey) => columnKey.trim())
+        .filter(
+          (columnKey) =>
+            columnKey.length > 0 && columnKey !== NO_VALUE_COLUMN_KEY,
+        ),
+      filters: [...baseFilters, ...toFilterList(view.filters)],
+    });
+  }
+  return views;
+}
+
+function getPropertyValue(note: NoteSnapshot, reference: string): unknown {
+  const key = getNotePropertyKey(reference);
+  return key === null ? undefined : note.frontmatter[key];
+}
+
+function isSameLiteral(value: unknown, literal: unknown): boolean {
+  if (
+    typeof value !== "string" &&
+    typeof value !== "number" &&
+    typeof value !== "boolean"
+  ) {
+    return false;
+  }
+  return typeof value === typeof literal
+    ? value === literal
+    : String(value) === String(literal);
+}
+
+function evaluateExpression(
+  expression: string,
+  note: NoteSnapshot,
+): boolean | null {
+  const trimmed = expression.trim();
+
+  const listContainsMatch = trimmed.match(LIST_CONTAINS_REGEX);
+  if (listContainsMatch !== null) {
+    const value = getPropertyValue(note, listContainsMatch[1]);
+    const literal = JSON.parse(listContainsMatch[2]) as unknown;
+    const items: unknown[] = Array.isArray(value) ? value : [value];
+    return items.some((item) => isSameLiteral(item, literal));
+  }
+
+  const containsMatch = trimmed.match(CONTAINS_REGEX);
+  if (containsMatch !== null) {
+    const value = getPropertyValue(note, containsMatch[1]);
+    const literal = JSON.parse(containsMatch[2]) as unknown;
+    if (Array.isArray(value)) {
+      return value.some((item) => isSameLiteral(item, literal));
+    }
+    return typeof value === "string" && value.includes(String(literal));
+  }
+
+  const comparisonMatch = trimmed.match(COMPARISON_REGEX);
+  if (comparisonMatch !== null) {
+    const value = getPropertyValue(note, comparisonMatch[1]);
+    const literal = JSON.parse(comparisonMatch[3]) as unknown;
+    const equal = isSameLiteral(value, literal);
+    return comparisonMatch[2] === "==" ? equal : !equal;
+  }
+
+  const inFolderMatch = trimmed.match(IN_FOLDER_REGEX);
+  if (inFolderMatch !== null) {
+    const folder = JSON.parse(inFolderMatch[1]) as string;
+    return folder.length === 0 || note.path.startsWith(`${folder}/`);
+  }
+
+  const hasTagMatch = trimmed.match(HAS_TAG_REGEX);
+  if (hasTagMatch !== null) {
+    const wanted = JSON.parse(`[${hasTagMatch[1]}]`) as string[];
+    return wanted.some((tag) => {
+      const name = tag.replace(/^#/, "").toLowerCase();
+      return note.tags.some((noteTag) => {
+        const lower = noteTag.toLowerCase();
+        return lower === name || lower.startsWith(`${name}/`);
+      });
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Check a note against a filter. Only the expressions this plugin writes and
+ * a few simple property checks are understood; anything else makes the
+ * result unknown (`null`) rather than guessing.
+ */
+export function evaluateFilter(
+  filter: BaseFilter,
+  note: NoteSnapshot,
+): boolean | null {
+  if (typeof filter === "string") {
+    try {
+      return evaluateExpression(filter, note);
+    } catch {
+      // A literal with an escape JSON does not know, such as `"\d"`.
+      return null;
+    }
+  }
+  if (!isRecord(filter)) {
+    return null;
+  }
+
+  const [operator, children] = Object.entries(filter)[0] ?? [];
+  if (!Array.isArray(children)) {
+    return null;
+  }
+  const results = children.map((child: BaseFilter) =>
+    evaluateFilter(child, note),
+  );
+  if (operator === "and") {
+    if (results.includes(false)) {
+      return false;
+    }
+    return results.includes(null) ? null : true;
+  }
+  if (operator === "or") {
+    if (results.includes(true)) {
+      return true;
+    }
+    return results.includes(null) ? null : false;
+  }
+  if (operator === "not") {
+    if (results.includes(true)) {
+      return false;
+    }
+    return results.includes(null) ? null : true;
+  }
+  return null;
+}
+
+function addRequiredValue(
+  frontmatter: UnknownRecord,
+  expression: string,
+): void {
+  const trimmed = expression.trim();
+  const containsMatch =
+    trimmed.match(LIST_CONTAINS_REGEX) ?? trimmed.match(CONTAINS_REGEX);
+  if (containsMatch !== null) {
+    const key = getNotePropertyKey(containsMatch[1]);
+    if (key === null) {
+      return;
+    }
+    const current = frontmatter[key];
+    const items: unknown[] = Array.isArray(current) ? current : [];
+    frontmatter[key] = [...items, JSON.parse(containsMatch[2]) as unknown];
+    return;
+  }
+
+  const comparisonMatch = trimmed.match(COMPARISON_REGEX);
+  if (comparisonMatch !== null && comparisonMatch[2] === "==") {
+    const key = getNotePropertyKey(comparisonMatch[1]);
+    if (key !== null) {
+      frontmatter[key] = JSON.parse(comparisonMatch[3]) as unknown;
+    }
+  }
+}
+
+/**
+ * Frontmatter a new note needs to pass the filters: the values required by
+ * `contains` and `==` checks that every note has to meet. Checks inside `or`
+ * and `not` groups are left alone, so the note can still fail other filters.
+ */
+export function getRequiredFrontmatter(
+  filters: BaseFilter[],
+): Record<string, unknown> {
+  const frontmatter: UnknownRecord = {};
+  const visit = (filter: BaseFilter): void => {
+    if (typeof filter === "string") {
+      try {
+        addRequiredValue(frontmatter, filter);
+      } catch {
+        // A literal JSON cannot read; the caller checks membership anyway.
+      }
+      return;
+    }
+    const children = isRecord(filter) ? (filter as UnknownRecord).and : null;
+    if (Array.isArray(children)) {
+      for (const child of children as BaseFilter[]) {
+        visit(child);
+      }
+    }
+  };
+  for (const filter of filters) {
+    visit(filter);
+  }
+  return frontmatter;
+}
+
+/** Whether the view is known to show the note. */
+export function isNoteInView(
+  view: BaseKanbanView,
+  note: NoteSnapshot,
+): boolean {
+  return view.filters.every((filter) => evaluateFilter(filter, note) === true);
+}
@@ -0,0 +1,61 @@
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes
+ * and line breaks. A leading byte order mark is ignored.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.startsWith("\uFEFF") ? content.slice(1) : content;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else {
+        inQuotes = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.length > 0));
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function serializeCsv(rows: string[][]): string {
+  return rows
+    .map((row) => row.map((value) => escapeCsvField(value)).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
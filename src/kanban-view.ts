@@ -15,8 +15,19 @@ import {
 } from "obsidian";
 import { mount, unmount } from "svelte";
 
+import type { BaseFilter } from "./base-file";
+import { readKanbanViews } from "./base-membership";
+import { serializeCsv } from "./csv";
+import { importChecklistCards } from "./migration/checklist-import";
+import { ImportFileSuggestModal } from "./migration/import-file-modal";
+import {
+  type LegacyExportLane,
+  serializeLegacyKanbanMarkdown,
+  serializeMarkdownChecklist,
+} from "./migration/legacy-export";
 import { resolveBackgroundStyles } from "./kanban-view/background-manager";
 import { persistCurrentBaseViewAsDefault } from "./kanban-view/base-view-order";
+import { ColumnSuggestModal } from "./kanban-view/column-suggest-modal";
 import {
   BACKGROUND_BLUR_OPTION_KEY,
   BACKGROUND_BRIGHTNESS_OPTION_KEY,
@@ -28,14 +39,20 @@ import {
   CARD_COVER_FIT_OPTION_KEY,
   CARD_COVER_HEIGHT_OPTION_KEY,
   CARD_COVER_SOURCE_OPTION_KEY,
+  COLLAPSED_SWIMLANES_OPTION_KEY,
   COLUMN_BLUR_OPTION_KEY,
+  COLUMN_LIMITS_OPTION_KEY,
   COLUMN_ORDER_OPTION_KEY,
   COLUMN_TRANSPARENCY_OPTION_KEY,
+  COLUMN_WIDTH_OPTION_KEY,
   COLUMNS_RIGHT_TO_LEFT_OPTION_KEY,
+  DONE_COLUMN_OPTION_KEY,
   KANBAN_VIEW_ID_OPTION_KEY,
   LOCAL_CARD_ORDER_OPTION_KEY,
   NO_VALUE_COLUMN_KEY,
   PINNED_COLUMNS_OPTION_KEY,
+  STRICT_COLUMN_LIMITS_OPTION_KEY,
+  SWIMLANE_PROPERTY_OPTION_KEY,
 } from "./kanban-view/constants";
 import {
   logDebug,
@@ -44,20 +61,35 @@ import {
   logScrollEvent,
 } from "./kanban-view/debug";
 import { buildEntryIndexes, type EntryGroupLike } from "./kanban-view/indexing";
-import { KanbanMutationService } from "./kanban-view/mutations";
+import {
+  getNavigationDirection,
+  getNextFocusedPath,
+  type NavigationDirection,
+  type NavigationGrid,
+} from "./kanban-view/keyboard-navigation";
+import {
+  KanbanMutationService,
+  type SwimlaneTarget,
+} from "./kanban-view/mutations";
 import { getKanbanViewOptions } from "./kanban-view/options";
 import {
   type CardOrderCache,
+  type CollapsedSwimlanesCache,
+  type ColumnLimitsCache,
   type ColumnOrderCache,
   loadColumnScrollPosition,
   loadLegacyScrollPosition,
   loadScrollState,
+  parseCollapsedSwimlanes,
+  parseColumnLimits,
   parseColumnOrder,
   parseLocalCardOrder,
   parsePinnedColumns,
   type PinnedColumnsCache,
   saveBoardScrollState,
   saveColumnScrollPosition,
+  serializeCollapsedSwimlanes,
+  serializeColumnLimits,
   serializeColumnOrder,
   serializeLocalCardOrder,
   serializePinnedColumns,
@@ -65,7 +97,9 @@ import {
 import {
   detectGroupByProperty,
   getColumnKey,
+  getColumnName,
   getPropertyCandidates,
+  getPropertyScalarValue,
   getPropertyValues,
   getSelectedProperties,
   getTargetGroupValue,
@@ -74,6 +108,7 @@ import {
   normalizeTagFilterValue,
 } from "./kanban-view/utils";
 import type BasesKanbanPlugin from "./main";
+import type { BasesKanbanSettings } from "./settings";
 
 import KanbanRoot from "./components/KanbanRoot.svelte";
 import type {
@@ -83,6 +118,7 @@ import type {
 } from "./kanban-view/actions";
 import {
   buildRenderedGroups,
+  buildSwimlanes,
   filterRenderedGroupsByTag,
   mergeGroupsByColumnKey,
   type RenderedGroup,
@@ -97,6 +133,7 @@ import {
   selectCard as selectCardState,
   type SelectionState,
   syncSelectionWithEntries,
+  toggleCardSelection,
 } from "./kanban-view/selection-state";
 import {
   createKanbanViewModel,
@@ -119,6 +156,8 @@ type AppWithMetadataTypeManager = App & {
 
 type BackgroundImageSourceOption = "local" | "remote";
 
+export type ColumnMoveTarget = "next" | "previous" | "first" | "last";
+
 const BACKGROUND_IMAGE_FILE_EXTENSIONS = new Set<string>([
   "avif",
   "bmp",
@@ -310,6 +349,25 @@ function isBackgroundImageFile(file: TFile): boolean {
   return BACKGROUND_IMAGE_FILE_EXTENSIONS.has(file.extension.toLowerCase());
 }
 
+/**
+ * Keys pressed in a field or on a control (other than a card itself) belong
+ * to that element, not to board navigation.
+ */
+function isInteractiveTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  if (
+    target.isContentEditable ||
+    target.closest("input, textarea, select") !== null
+  ) {
+    return true;
+  }
+
+  const control = target.closest("button, a, [role=button]");
+  return control !== null && !control.classList.contains("bases-kanban-card");
+}
+
 export class KanbanView extends BasesView {
   type = "cumban";
   private readonly rootEl: HTMLElement;
@@ -323,10 +381,17 @@ export class KanbanView extends BasesView {
   private localCardOrderCache: CardOrderCache = { order: null, raw: "" };
   private columnOrderCache: ColumnOrderCache = { order: null, raw: "" };
   private pinnedColumnsCache: PinnedColumnsCache = { columns: null, raw: "" };
+  private columnLimitsCache: ColumnLimitsCache = { limits: null, raw: "" };
+  private collapsedSwimlanesCache: CollapsedSwimlanesCache = {
+    swimlanes: null,
+    raw: "",
+  };
   private svelteApp: ReturnType<typeof KanbanRoot> | null = null;
   private readonly viewModel: KanbanViewModel;
   private columnsRightToLeft = false;
   private canonicalRenderedGroups: RenderedGroup[] = [];
+  private visibleRenderedGroups: RenderedGroup[] = [];
+  private focusedPath: string | null = null;
   private incrementalLoadRafId: number | null = null;
   private isPersistingActiveView = false;
   private hasPendingDataUpdate = false;
@@ -374,6 +439,95 @@ export class KanbanView extends BasesView {
     this.promptAndAddPinnedEmptyColumn();
   }
 
+  exportToCsv(): void {
+    void this.writeBoardExport(
+      "csv",
+      () => serializeCsv(this.buildCsvRows()),
+      "CSV",
+    );
+  }
+
+  exportToLegacyMarkdown(): void {
+    void this.writeBoardExport(
+      "md",
+      () => serializeLegacyKanbanMarkdown(this.buildLegacyExportLanes()),
+      "Legacy kanban",
+    );
+  }
+
+  hasCardSelection(): boolean {
+    return hasSelection(this.selectionState);
+  }
+
+  async copySelectionAsChecklist(paths?: string[]): Promise<void> {
+    const checklist = this.buildChecklist(
+      paths ?? [...this.selectionState.selectedPaths],
+      "",
+    );
+    if (checklist === null) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(checklist);
+      new Notice("Checklist copied to clipboard");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Copying the checklist failed: ${message}`);
+    }
+  }
+
+  appendSelectionAsChecklistToNote(paths?: string[]): void {
+    const selectedPaths = paths ?? [...this.selectionState.selectedPaths];
+    new ImportFileSuggestModal(
+      this.app,
+      ["md"],
+      "Choose a note to add the checklist to",
+      (file) => {
+        void this.appendChecklistToNote(file, selectedPaths);
+      },
+    ).open();
+  }
+
+  /**
+   * Turn the top-level tasks of a note or todo.txt file into cards of this
+   * board and replace them with links to the new notes.
+   */
+  async importChecklistCards(file: TFile): Promise<void> {
+    const groupByProperty = this.getActiveGroupByProperty();
+    const groupByPropertyKey =
+      groupByProperty === null ? null : getWritablePropertyKey(groupByProperty);
+    if (groupByPropertyKey === null) {
+      new Notice("Group the board by a note property to import cards.");
+      return;
+    }
+
+    await importChecklistCards(this.app, file, {
+      groupByPropertyKey,
+      columns: this.canonicalRenderedGroups
+        .map(({ group }) => getTargetGroupValue(group.key))
+        .filter((value): value is string => value !== null),
+      folderPath: this.getCardFolderPath(),
+      filters: await this.getViewFilters(),
+      cancelButtonText: this.plugin.settings.cancelButtonText,
+    });
+  }
+
+  /** Base and view filters of this view, read from its `.base` file. */
+  private async getViewFilters(): Promise<BaseFilter[]> {
+    const baseFile = this.getCurrentBaseFile();
+    const viewName = this.config?.name;
+    if (baseFile === null || typeof viewName !== "string") {
+      return [];
+    }
+
+    const views = readKanbanViews(
+      await this.app.vault.cachedRead(baseFile),
+      this.type,
+    );
+    return views.find((view) => view.name === viewName)?.filters ?? [];
+  }
+
   isRenderedWithin(containerEl: HTMLElement): boolean {
     return containerEl.contains(this.rootEl);
   }
@@ -549,6 +703,7 @@ export class KanbanView extends BasesView {
     }
 
     this.canonicalRenderedGroups = canonicalRenderedGroups;
+    this.visibleRenderedGroups = filteredRenderedGroups;
 
     this.refreshEntryIndexes(filteredRenderedGroups);
     this.updateSvelteProps();
@@ -619,6 +774,7 @@ export class KanbanView extends BasesView {
     this.viewModel.setBoardData({
       groups: renderedGroups,
       groupByProperty,
+      swimlaneProperty: this.getSwimlanePropertyFromConfig(groupByProperty),
       selectedProperties,
       cardCoverEnabled: this.getCardCoverEnabledFromConfig(),
       cardCoverSource: this.getCardCoverSourceFromConfig(),
@@ -626,11 +782,16 @@ export class KanbanView extends BasesView {
     this.viewModel.setActiveTagFilters(this.activeTagFilters);
     this.viewModel.setColumnScrollByKey(columnScrollByKey);
     this.viewModel.setPinnedColumns(new Set(this.getPinnedColumnsFromConfig()));
+    this.viewModel.setColumnLimits(this.getColumnLimitsFromConfig());
+    this.viewModel.setCollapsedSwimlanes(
+      this.getCollapsedSwimlanesFromConfig(),
+    );
 
     const callbacks: KanbanCallbacks = {
       card: {
         select: (filePath: string, extendSelection: boolean) =>
           this.selectCard(filePath, extendSelection),
+        focus: (filePath: string) => this.setFocusedPath(filePath),
         tagClick: (tag: string) => this.toggleTagFilter(tag),
         dragStart: (filePath: string, cardIndex: number) =>
           this.startCardDrag(filePath, cardIndex),
@@ -640,7 +801,15 @@ export class KanbanView extends BasesView {
           filePath: string | null,
           grpKey: unknown,
           placement: "before" | "after",
-        ) => void this.handleCardDrop(sourcePath, filePath, grpKey, placement),
+          swimlaneKey: string | null,
+        ) =>
+          void this.handleCardDrop(
+            sourcePath,
+            filePath,
+            grpKey,
+            placement,
+            swimlaneKey,
+          ),
         contextMenu: (evt: MouseEvent, entry: BasesEntry) =>
           this.showCardContextMenu(evt, entry.file),
         linkClick: (evt: MouseEvent, target: string) =>
@@ -672,8 +841,11 @@ export class KanbanView extends BasesView {
         ) => this.updateCardPropertyCheckbox(filePath, propertyId, checked),
       },
       column: {
-        createCard: (grpByProperty: BasesPropertyId | null, grpKey: unknown) =>
-          void this.createCardForColumn(grpByProperty, grpKey),
+        createCard: (
+          grpByProperty: BasesPropertyId | null,
+          grpKey: unknown,
+          swimlaneKey: string | null,
+        ) => void this.createCardForColumn(grpByProperty, grpKey, swimlaneKey),
         rename: (columnKey: string, grpKey: unknown, nextName: string) =>
           this.renameColumn(columnKey, grpKey, nextName),
         startDrag: (columnKey: string) => this.startColumnDrag(columnKey),
@@ -684,6 +856,8 @@ export class KanbanView extends BasesView {
           placement: "before" | "after",
         ) => this.handleColumnDrop(sourceKey, targetKey, placement),
         togglePin: (columnKey: string) => this.toggleColumnPin(columnKey),
+        editLimit: (columnKey: string) =>
+          this.promptAndSetColumnLimit(columnKey),
         cardsScroll: (columnKey: string, scrollTop: number) =>
           this.handleColumnScroll(columnKey, scrollTop),
       },
@@ -694,6 +868,8 @@ export class KanbanView extends BasesView {
         click: () => this.clearSelection(),
         clearTagFilter: () => this.clearTagFilter(),
         addColumn: () => this.promptAndAddPinnedEmptyColumn(),
+        toggleSwimlane: (swimlaneKey: string) =>
+          this.toggleSwimlaneCollapsed(swimlaneKey),
       },
     };
 
@@ -702,6 +878,7 @@ export class KanbanView extends BasesView {
       props: {
         app: this.app,
         selectedPathsStore: this.viewModel.selectedPathsStore,
+        focusedPathStore: this.viewModel.focusedPathStore,
         initialBoardScrollLeft: initialBoardScroll.left,
         initialBoardScrollTop: initialBoardScroll.top,
         settings: this.plugin.settings,
@@ -725,11 +902,14 @@ export class KanbanView extends BasesView {
         groupsStore: this.viewModel.groupsStore,
         activeTagFiltersStore: this.viewModel.activeTagFiltersStore,
         groupByPropertyStore: this.viewModel.groupByPropertyStore,
+        swimlanePropertyStore: this.viewModel.swimlanePropertyStore,
         selectedPropertiesStore: this.viewModel.selectedPropertiesStore,
         cardCoverEnabledStore: this.viewModel.cardCoverEnabledStore,
         cardCoverSourceStore: this.viewModel.cardCoverSourceStore,
         columnScrollByKeyStore: this.viewModel.columnScrollByKeyStore,
         pinnedColumnsStore: this.viewModel.pinnedColumnsStore,
+        columnLimitsStore: this.viewModel.columnLimitsStore,
+        collapsedSwimlanesStore: this.viewModel.collapsedSwimlanesStore,
         animationsReadyStore: this.viewModel.animationsReadyStore,
         callbacks,
       },
@@ -764,6 +944,7 @@ export class KanbanView extends BasesView {
     this.viewModel.setBoardData({
       groups: renderedGroups,
       groupByProperty,
+      swimlaneProperty: this.getSwimlanePropertyFromConfig(groupByProperty),
       selectedProperties,
       cardCoverEnabled: this.getCardCoverEnabledFromConfig(),
       cardCoverSource: this.getCardCoverSourceFromConfig(),
@@ -954,6 +1135,15 @@ export class KanbanView extends BasesView {
       "--bases-kanban-column-blur",
       `${styles.columnBlurValue}px`,
     );
+    const columnWidth = this.getColumnWidthFromConfig();
+    if (columnWidth === null) {
+      this.rootEl.style.removeProperty("--bases-kanban-column-width");
+    } else {
+      this.rootEl.style.setProperty(
+        "--bases-kanban-column-width",
+        `${columnWidth}px`,
+      );
+    }
     this.rootEl.style.setProperty(
       "--bases-kanban-card-cover-height",
       `${this.getCardCoverHeightFromConfig()}px`,
@@ -1049,6 +1239,22 @@ export class KanbanView extends BasesView {
         .onClick(() => void this.trashFiles([file]));
     });
 
+    const checklistPaths = this.getDraggedPaths(file.path);
+    menu.addItem((item) => {
+      item
+        .setTitle("Copy as checklist")
+        .setIcon("list-checks")
+        .onClick(() => void this.copySelectionAsChecklist(checklistPaths));
+    });
+    menu.addItem((item) => {
+      item
+        .setTitle("Add as checklist to note")
+        .setIcon("list-plus")
+        .onClick(() => {
+          this.appendSelectionAsChecklistToNote(checklistPaths);
+        });
+    });
+
     menu.addSeparator();
 
     this.app.workspace.trigger("file-menu", menu, file, "kanban-view");
@@ -1458,12 +1664,62 @@ export class KanbanView extends BasesView {
       if (filesToTrash.length > 0) {
         void this.trashFiles(filesToTrash);
       }
+      return;
     }
+
+    if (isInteractiveTarget(evt.target) || evt.altKey) {
+      return;
+    }
+
+    if (evt.key === "Enter") {
+      if (this.focusedPath === null) {
+        return;
+      }
+      evt.preventDefault();
+      evt.stopPropagation();
+      this.openFocusedCard(evt.metaKey || evt.ctrlKey);
+      return;
+    }
+
+    if (evt.metaKey || evt.ctrlKey) {
+      return;
+    }
+
+    if (evt.key === " ") {
+      if (this.focusedPath === null) {
+        return;
+      }
+      evt.preventDefault();
+      evt.stopPropagation();
+      this.toggleFocusedCardSelection();
+      return;
+    }
+
+    const direction = getNavigationDirection(evt.key);
+    if (direction === null) {
+      return;
+    }
+
+    evt.preventDefault();
+    evt.stopPropagation();
+    // Shift+H/L move cards; Shift with arrows or J/K extends the selection.
+    const isLetterKey = evt.key.length === 1;
+    if (
+      evt.shiftKey &&
+      isLetterKey &&
+      (direction === "left" || direction === "right")
+    ) {
+      void this.moveFocusedCardsToAdjacentColumn(direction);
+      return;
+    }
+
+    this.moveCardFocus(direction, evt.shiftKey);
   }
 
   private async createCardForColumn(
     groupByProperty: BasesPropertyId | null,
     groupKey: unknown,
+    swimlaneKey: string | null,
   ): Promise<void> {
     const groupByPropertyKey =
       groupByProperty === null ? null : getWritablePropertyKey(groupByProperty);
@@ -1472,6 +1728,7 @@ export class KanbanView extends BasesView {
       groupByProperty,
       groupByPropertyKey,
       groupKey,
+      swimlane: this.getSwimlaneTarget(groupByProperty, swimlaneKey),
       createFileForView: async (filePath, updateFrontmatter) => {
         await this.createFileForView(filePath, updateFrontmatter);
       },
@@ -1600,6 +1857,18 @@ export class KanbanView extends BasesView {
     return nextPaths;
   }
 
+  private getColumnDisplayName(columnKey: string): string {
+    const renderedGroup = this.canonicalRenderedGroups.find(({ group }) => {
+      return getColumnKey(group.key) === columnKey;
+    });
+    return renderedGroup === undefined
+      ? columnKey
+      : getColumnName(
+          renderedGroup.group.key,
+          this.plugin.settings.emptyColumnLabel,
+        );
+  }
+
   private getColumnCardPaths(columnKey: string): string[] {
     for (const { group, entries } of this.canonicalRenderedGroups) {
       if (getColumnKey(group.key) === columnKey) {
@@ -1617,6 +1886,9 @@ export class KanbanView extends BasesView {
       this.selectionState,
       new Set(this.entryByPath.keys()),
     );
+    if (this.focusedPath !== null && !this.entryByPath.has(this.focusedPath)) {
+      this.setFocusedPath(null);
+    }
   }
 
   private getCardIndex(filePath: string): number {
@@ -1634,10 +1906,238 @@ export class KanbanView extends BasesView {
       extendSelection,
       () => this.cardOrder,
     );
+    this.setFocusedPath(filePath);
+
+    this.updateSvelteProps();
+  }
+
+  private setFocusedPath(filePath: string | null): void {
+    this.focusedPath = filePath;
+    this.viewModel.setFocusedPath(filePath);
+  }
+
+  /** Card paths as laid out on screen, skipping collapsed swimlanes. */
+  private getNavigationGrid(): NavigationGrid {
+    const toColumns = (groups: RenderedGroup[]): string[][] =>
+      groups.map(({ entries }) => entries.map((entry) => entry.file.path));
+
+    const swimlaneProperty = this.getSwimlanePropertyFromConfig(
+      this.getActiveGroupByProperty(),
+    );
+    if (swimlaneProperty === null) {
+      return [toColumns(this.visibleRenderedGroups)];
+    }
+
+    const collapsedSwimlanes = this.getCollapsedSwimlanesFromConfig();
+    return buildSwimlanes(this.visibleRenderedGroups, swimlaneProperty)
+      .filter((swimlane) => !collapsedSwimlanes.has(swimlane.key))
+      .map((swimlane) => toColumns(swimlane.groups));
+  }
+
+  private moveCardFocus(
+    direction: NavigationDirection,
+    extendSelection: boolean,
+  ): void {
+    const previousPath = this.focusedPath;
+    const nextPath = getNextFocusedPath(
+      this.getNavigationGrid(),
+      previousPath,
+      this.getScreenDirection(direction),
+    );
+    if (nextPath === null) {
+      return;
+    }
+
+    if (!extendSelection) {
+      this.setFocusedPath(nextPath);
+      return;
+    }
+
+    // Anchor the range on the card the cursor is leaving.
+    if (
+      previousPath !== null &&
+      this.selectionState.lastSelectedIndex === null
+    ) {
+      this.selectCard(previousPath, false);
+    }
+    if (nextPath !== previousPath) {
+      this.selectCard(nextPath, true);
+    }
+  }
 
+  /** Columns are laid out in reverse when the board runs right to left. */
+  private getScreenDirection(
+    direction: NavigationDirection,
+  ): NavigationDirection {
+    if (!this.columnsRightToLeft) {
+      return direction;
+    }
+    if (direction === "left") {
+      return "right";
+    }
+    return direction === "right" ? "left" : direction;
+  }
+
+  private toggleFocusedCardSelection(): void {
+    if (this.focusedPath === null) {
+      return;
+    }
+
+    this.selectionState = toggleCardSelection(
+      this.selectionState,
+      this.focusedPath,
+      this.getCardIndex(this.focusedPath),
+    );
     this.updateSvelteProps();
   }
 
+  private openFocusedCard(newTab: boolean): void {
+    const entry =
+      this.focusedPath === null
+        ? undefined
+        : this.entryByPath.get(this.focusedPath);
+    if (entry === undefined) {
+      return;
+    }
+
+    void this.app.workspace.getLeaf(newTab).openFile(entry.file);
+  }
+
+  /**
+   * Move the focused card, or the selection it belongs to, to the column next
+   * to it on screen. Goes through the same path as a drop at the column end.
+   */
+  private async moveFocusedCardsToAdjacentColumn(
+    direction: "left" | "right",
+  ): Promise<void> {
+    const sourcePath =
+      this.focusedPath ??
+      this.cardOrder.find((path) =>
+        isPathSelected(this.selectionState, path),
+      ) ??
+      null;
+    if (sourcePath === null) {
+      return;
+    }
+
+    const step = this.getScreenDirection(direction) === "right" ? 1 : -1;
+    await this.moveCardsToColumnAt(
+      sourcePath,
+      this.visibleRenderedGroups,
+      (columnIndex) => columnIndex + step,
+    );
+  }
+
+  /**
+   * Move the selected cards to a column relative to the one the focused
+   * selected card (or the first selected card) is in.
+   */
+  async moveSelectionToColumn(target: ColumnMoveTarget): Promise<void> {
+    const sourcePath = this.getSelectionAnchorPath();
+    if (sourcePath === null) {
+      return;
+    }
+
+    await this.moveCardsToColumnAt(
+      sourcePath,
+      this.visibleRenderedGroups,
+      (columnIndex, lastIndex) => {
+        if (target === "first") {
+          return 0;
+        }
+        if (target === "last") {
+          return lastIndex;
+        }
+        return columnIndex + (target === "next" ? 1 : -1);
+      },
+    );
+  }
+
+  openMoveSelectionToColumnPicker(): void {
+    const sourcePath = this.getSelectionAnchorPath();
+    const groupByProperty = this.getActiveGroupByProperty();
+    const sourceEntry =
+      sourcePath === null ? undefined : this.entryByPath.get(sourcePath);
+    if (
+      sourcePath === null ||
+      groupByProperty === null ||
+      sourceEntry === undefined
+    ) {
+      return;
+    }
+
+    // The columns on screen, without the one the selection is anchored in.
+    const sourceColumnKey = getColumnKey(sourceEntry.getValue(groupByProperty));
+    const columns = this.visibleRenderedGroups
+      .filter(({ group }) => getColumnKey(group.key) !== sourceColumnKey)
+      .map(({ group, entries }) => ({
+        name: getColumnName(group.key, this.plugin.settings.emptyColumnLabel),
+        detail: `${entries.length} ${entries.length === 1 ? "card" : "cards"}`,
+        groupKey: group.key,
+      }));
+    new ColumnSuggestModal(
+      this.app,
+      columns,
+      "Move selected cards to column...",
+      (column) => {
+        void this.handleDrop(
+          sourcePath,
+          groupByProperty,
+          column.groupKey,
+          null,
+          "after",
+        );
+      },
+    ).open();
+  }
+
+  private getSelectionAnchorPath(): string | null {
+    if (
+      this.focusedPath !== null &&
+      isPathSelected(this.selectionState, this.focusedPath)
+    ) {
+      return this.focusedPath;
+    }
+    return (
+      this.cardOrder.find((path) =>
+        isPathSelected(this.selectionState, path),
+      ) ?? null
+    );
+  }
+
+  private async moveCardsToColumnAt(
+    sourcePath: string,
+    groups: RenderedGroup[],
+    resolveTargetIndex: (columnIndex: number, lastIndex: number) => number,
+  ): Promise<void> {
+    const groupByProperty = this.getActiveGroupByProperty();
+    const sourceEntry = this.entryByPath.get(sourcePath);
+    if (sourceEntry === undefined || groupByProperty === null) {
+      return;
+    }
+
+    const sourceColumnKey = getColumnKey(sourceEntry.getValue(groupByProperty));
+    const columnIndex = groups.findIndex(({ group }) => {
+      return getColumnKey(group.key) === sourceColumnKey;
+    });
+    if (columnIndex === -1) {
+      return;
+    }
+    const targetIndex = resolveTargetIndex(columnIndex, groups.length - 1);
+    const targetGroup = groups[targetIndex];
+    if (targetIndex === columnIndex || targetGroup === undefined) {
+      return;
+    }
+
+    await this.handleDrop(
+      sourcePath,
+      groupByProperty,
+      targetGroup.group.key,
+      null,
+      "after",
+    );
+  }
+
   private clearSelection(): void {
     if (!hasSelection(this.selectionState)) {
       return;
@@ -1722,6 +2222,7 @@ export class KanbanView extends BasesView {
     targetPath: string | null,
     groupKey: unknown,
     placement: "before" | "after",
+    swimlaneKey: string | null,
   ): Promise<void> {
     if (sourcePath === null) {
       logDragEvent("Drop aborted - no dragging source");
@@ -1748,6 +2249,7 @@ export class KanbanView extends BasesView {
       groupKey,
       targetPath,
       placement,
+      swimlaneKey,
     );
   }
 
@@ -1838,6 +2340,120 @@ export class KanbanView extends BasesView {
     return columns;
   }
 
+  private getColumnLimitsFromConfig(): Map<string, number> {
+    const configValue = this.config?.get(COLUMN_LIMITS_OPTION_KEY);
+    const { limits, cache } = parseColumnLimits(
+      configValue,
+      this.columnLimitsCache,
+    );
+    this.columnLimitsCache = cache;
+    return limits;
+  }
+
+  /**
+   * Property splitting the board into swimlanes. Ignored when it matches the
+   * group-by property, since every row would hold a single column.
+   */
+  private getSwimlanePropertyFromConfig(
+    groupByProperty: BasesPropertyId | null,
+  ): BasesPropertyId | null {
+    const swimlaneProperty =
+      this.config?.getAsPropertyId(SWIMLANE_PROPERTY_OPTION_KEY) ?? null;
+    return swimlaneProperty === groupByProperty ? null : swimlaneProperty;
+  }
+
+  private getSwimlaneTarget(
+    groupByProperty: BasesPropertyId | null,
+    swimlaneKey: string | null,
+  ): SwimlaneTarget | null {
+    if (swimlaneKey === null) {
+      return null;
+    }
+
+    const property = this.getSwimlanePropertyFromConfig(groupByProperty);
+    const propertyKey =
+      property === null ? null : getWritablePropertyKey(property);
+    if (property === null || propertyKey === null) {
+      return null;
+    }
+
+    return {
+      property,
+      propertyKey,
+      key: swimlaneKey,
+      value:
+        swimlaneKey === NO_VALUE_COLUMN_KEY
+          ? null
+          : this.getSwimlaneFrontmatterValue(
+              property,
+              propertyKey,
+              swimlaneKey,
+            ),
+    };
+  }
+
+  /**
+   * The row's value as stored in a card of that row, so a link or a list is
+   * copied rather than its display text. Falls back to the row key.
+   */
+  private getSwimlaneFrontmatterValue(
+    property: BasesPropertyId,
+    propertyKey: string,
+    swimlaneKey: string,
+  ): unknown {
+    const swimlane = buildSwimlanes(this.visibleRenderedGroups, property).find(
+      (candidate) => candidate.key === swimlaneKey,
+    );
+    const sourceEntry = swimlane?.groups.find(
+      ({ entries }) => entries.length > 0,
+    )?.entries[0];
+    const frontmatter =
+      sourceEntry === undefined
+        ? undefined
+        : this.app.metadataCache.getFileCache(sourceEntry.file)?.frontmatter;
+    if (frontmatter === undefined) {
+      return swimlaneKey;
+    }
+
+    const value = this.getFrontmatterPropertyValue(
+      frontmatter,
+      property,
+      propertyKey,
+    );
+    if (value === null || value === undefined) {
+      return swimlaneKey;
+    }
+    return Array.isArray(value) ? [...(value as unknown[])] : value;
+  }
+
+  private getCollapsedSwimlanesFromConfig(): Set<string> {
+    const configValue = this.config?.get(COLLAPSED_SWIMLANES_OPTION_KEY);
+    const { swimlanes, cache } = parseCollapsedSwimlanes(
+      configValue,
+      this.collapsedSwimlanesCache,
+    );
+    this.collapsedSwimlanesCache = cache;
+    return swimlanes;
+  }
+
+  private toggleSwimlaneCollapsed(swimlaneKey: string): void {
+    const collapsedSwimlanes = new Set(this.getCollapsedSwimlanesFromConfig());
+    if (!collapsedSwimlanes.delete(swimlaneKey)) {
+      collapsedSwimlanes.add(swimlaneKey);
+    }
+
+    this.collapsedSwimlanesCache = { swimlanes: null, raw: "" };
+    this.config?.set(
+      COLLAPSED_SWIMLANES_OPTION_KEY,
+      serializeCollapsedSwimlanes(collapsedSwimlanes),
+    );
+    this.viewModel.setCollapsedSwimlanes(collapsedSwimlanes);
+  }
+
+  private getStrictColumnLimitsFromConfig(): boolean {
+    return this.config?.get(STRICT_COLUMN_LIMITS_OPTION_KEY) === true;
+  }
+
   private getColumnsRightToLeftFromConfig(): boolean {
     return this.config?.get(COLUMNS_RIGHT_TO_LEFT_OPTION_KEY) === true;
   }
@@ -1864,6 +2480,14 @@ export class KanbanView extends BasesView {
     return Math.max(60, Math.min(200, configValue));
   }
 
+  private getColumnWidthFromConfig(): number | null {
+    const configValue = this.config?.get(COLUMN_WIDTH_OPTION_KEY);
+    if (typeof configValue !== "number" || Number.isNaN(configValue)) {
+      return null;
+    }
+    return Math.max(200, Math.min(500, configValue));
+  }
+
   private getCardCoverFitFromConfig(): "cover" | "contain" | "contain-fixed" {
     const fit = this.config?.get(CARD_COVER_FIT_OPTION_KEY);
     if (fit === "cover" || fit === "contain" || fit === "contain-fixed") {
@@ -1885,6 +2509,34 @@ export class KanbanView extends BasesView {
     this.viewModel.setPinnedColumns(new Set(pinnedColumns));
   }
 
+  private updateColumnLimits(columnLimits: Map<string, number>): void {
+    this.columnLimitsCache = { limits: null, raw: "" };
+    this.config?.set(
+      COLUMN_LIMITS_OPTION_KEY,
+      serializeColumnLimits(columnLimits),
+    );
+    this.viewModel.setColumnLimits(columnLimits);
+  }
+
+  private promptAndSetColumnLimit(columnKey: string): void {
+    const currentLimit =
+      this.getColumnLimitsFromConfig().get(columnKey) ?? null;
+    void this.openColumnLimitModal(columnKey, currentLimit).then((limit) => {
+      if (limit === undefined) {
+        return;
+      }
+
+      const nextLimits = new Map(this.getColumnLimitsFromConfig());
+      if (limit === null) {
+        nextLimits.delete(columnKey);
+      } else {
+        nextLimits.set(columnKey, limit);
+      }
+      this.updateColumnLimits(nextLimits);
+      logDebug("LIMIT", `Set limit for ${columnKey}`, { limit });
+    });
+  }
+
   private toggleColumnPin(columnKey: string): void {
     const currentPinned = this.getPinnedColumnsFromConfig();
     const pinnedSet = new Set(currentPinned);
@@ -1951,10 +2603,103 @@ export class KanbanView extends BasesView {
     }
 
     this.renamePinnedColumnKey(columnKey, trimmedNextName);
+    this.renameColumnLimitKey(columnKey, trimmedNextName);
     this.renameColumnOrderKey(columnKey, trimmedNextName);
     this.renameLocalCardOrderColumnKey(columnKey, trimmedNextName);
   }
 
+  /**
+   * Folder most cards of the board live in, so new cards are likely to match
+   * the base filters.
+   */
+  private getCardFolderPath(): string | null {
+    const countsByFolder = new Map<string, number>();
+    for (const { entries } of this.canonicalRenderedGroups) {
+      for (const entry of entries) {
+        const folderPath = entry.file.parent?.path;
+        if (folderPath !== undefined) {
+          countsByFolder.set(
+            folderPath,
+            (countsByFolder.get(folderPath) ?? 0) + 1,
+          );
+        }
+      }
+    }
+
+    let bestFolderPath: string | null = null;
+    let bestCount = 0;
+    for (const [folderPath, count] of countsByFolder) {
+      if (count > bestCount) {
+        bestFolderPath = folderPath;
+        bestCount = count;
+      }
+    }
+    return bestFolderPath;
+  }
+
+  private getDoneColumnFromConfig(): string | null {
+    const configValue = this.config?.get(DONE_COLUMN_OPTION_KEY);
+    if (typeof configValue !== "string") {
+      return null;
+    }
+    const trimmed = configValue.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+
+  /**
+   * Task list of the given cards in board order, one heading per column.
+   * Cards in the configured done column are checked.
+   */
+  private buildChecklist(paths: string[], sourcePath: string): string | null {
+    const selectedPaths = new Set(paths);
+    const doneColumn = this.getDoneColumnFromConfig();
+    const lanes: LegacyExportLane[] = this.canonicalRenderedGroups.map(
+      ({ group, entries }) => {
+        const name = getColumnName(
+          group.key,
+          this.plugin.settings.emptyColumnLabel,
+        );
+        return {
+          name,
+          cards: entries
+            .filter((entry) => selectedPaths.has(entry.file.path))
+            .map((entry) => ({
+              text: `[[${this.app.metadataCache.fileToLinktext(entry.file, sourcePath)}]]`,
+              checked: name === doneColumn,
+            })),
+        };
+      },
+    );
+    if (lanes.every((lane) => lane.cards.length === 0)) {
+      new Notice("Select cards to convert into a checklist.");
+      return null;
+    }
+
+    return serializeMarkdownChecklist(lanes);
+  }
+
+  private async appendChecklistToNote(
+    file: TFile,
+    paths: string[],
+  ): Promise<void> {
+    const checklist = this.buildChecklist(paths, file.path);
+    if (checklist === null) {
+      return;
+    }
+
+    try {
+      await this.app.vault.process(file, (content) =>
+        content.trim().length === 0
+          ? checklist
+          : `${content.trimEnd()}\n\n${checklist}`,
+      );
+      new Notice(`Checklist added to ${file.basename}`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Adding the checklist failed: ${message}`);
+    }
+  }
+
   private getActiveGroupByProperty(): BasesPropertyId | null {
     const rawGroups: BasesEntryGroup[] = this.data?.groupedData ?? [];
     return detectGroupByProperty(
@@ -1966,6 +2711,98 @@ export class KanbanView extends BasesView {
     );
   }
 
+  private buildCsvRows(): string[][] {
+    const groupByProperty = this.getActiveGroupByProperty();
+    const properties = getSelectedProperties(this.data?.properties).filter(
+      (propertyId) =>
+        propertyId !== groupByProperty && propertyId !== "file.name",
+    );
+    const getHeader = (propertyId: BasesPropertyId): string =>
+      getWritablePropertyKey(propertyId) ??
+      this.config?.getDisplayName(propertyId) ??
+      propertyId;
+
+    const rows: string[][] = [
+      [
+        "title",
+        groupByProperty === null ? "column" : getHeader(groupByProperty),
+        ...properties.map(getHeader),
+      ],
+    ];
+    for (const { group, entries } of this.canonicalRenderedGroups) {
+      const columnName = getTargetGroupValue(group.key) ?? "";
+      for (const entry of entries) {
+        rows.push([
+          entry.file.basename,
+          columnName,
+          ...properties.map(
+            (propertyId) =>
+              getPropertyValues(entry.getValue(propertyId))?.join(", ") ?? "",
+          ),
+        ]);
+      }
+    }
+
+    return rows;
+  }
+
+  private buildLegacyExportLanes(): LegacyExportLane[] {
+    const baseFile = this.getCurrentBaseFile();
+    const checkedProperty =
+      this.plugin.settings.migrationCheckedProperty.trim();
+    return this.canonicalRenderedGroups.map(({ group, entries }) => ({
+      name: getColumnName(group.key, this.plugin.settings.emptyColumnLabel),
+      cards: entries.map((entry) => {
+        const checkedValue =
+          checkedProperty.length === 0
+            ? null
+            : getPropertyScalarValue(
+                entry.getValue(`note.${checkedProperty}` as BasesPropertyId),
+              );
+        const linkText = this.app.metadataCache.fileToLinktext(
+          entry.file,
+          baseFile?.path ?? "",
+        );
+        return { text: `[[${linkText}]]`, checked: checkedValue === "true" };
+      }),
+    }));
+  }
+
+  /**
+   * Write an export of the board next to its base file, named after the base
+   * and the view, without overwriting earlier exports.
+   */
+  private async writeBoardExport(
+    extension: string,
+    buildContent: () => string,
+    formatLabel: string,
+  ): Promise<void> {
+    const baseFile = this.getCurrentBaseFile();
+    const folder = baseFile?.parent?.path ?? "";
+    const baseName = [baseFile?.basename, this.config?.name]
+      .filter((part) => typeof part === "string" && part.length > 0)
+      .join(" - ");
+    const prefix = folder.length === 0 || folder === "/" ? "" : `${folder}/`;
+    const fileName = baseName.length > 0 ? baseName : "Kanban board";
+
+    let path = normalizePath(`${prefix}${fileName}.${extension}`);
+    for (
+      let index = 1;
+      this.app.vault.getAbstractFileByPath(path) !== null;
+      index += 1
+    ) {
+      path = normalizePath(`${prefix}${fileName} (${index}).${extension}`);
+    }
+
+    try {
+      await this.app.vault.create(path, buildContent());
+      new Notice(`Board exported to ${path}`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`${formatLabel} export failed: ${message}`);
+    }
+  }
+
   private getEntriesForColumn(columnKey: string): BasesEntry[] {
     const renderedGroup = this.canonicalRenderedGroups.find(({ group }) => {
       return getColumnKey(group.key) === columnKey;
@@ -1992,6 +2829,26 @@ export class KanbanView extends BasesView {
     this.updatePinnedColumns([...new Set(nextPinned)]);
   }
 
+  private renameColumnLimitKey(
+    oldColumnKey: string,
+    newColumnKey: string,
+  ): void {
+    if (oldColumnKey === newColumnKey) {
+      return;
+    }
+
+    const currentLimits = this.getColumnLimitsFromConfig();
+    const limit = currentLimits.get(oldColumnKey);
+    if (limit === undefined) {
+      return;
+    }
+
+    const nextLimits = new Map(currentLimits);
+    nextLimits.delete(oldColumnKey);
+    nextLimits.set(newColumnKey, limit);
+    this.updateColumnLimits(nextLimits);
+  }
+
   private renameColumnOrderKey(
     oldColumnKey: string,
     newColumnKey: string,
@@ -2165,6 +3022,98 @@ export class KanbanView extends BasesView {
     });
   }
 
+  /**
+   * Resolves to the new limit, `null` to remove it, or `undefined` when the
+   * modal is cancelled.
+   */
+  private openColumnLimitModal(
+    columnKey: string,
+    currentLimit: number | null,
+  ): Promise<number | null | undefined> {
+    return new Promise((resolve) => {
+      const modal = new Modal(this.app);
+      let resolved = false;
+
+      const finish = (value: number | null | undefined): void => {
+        if (resolved) {
+          return;
+        }
+        resolved = true;
+        resolve(value);
+      };
+
+      modal.titleEl.setText(
+        `Card limit for ${this.getColumnDisplayName(columnKey)}`,
+      );
+      modal.contentEl.createEl("p", {
+        text: "Leave empty to remove the limit.",
+      });
+
+      const inputEl = modal.contentEl.createEl("input", {
+        type: "number",
+        value: currentLimit === null ? "" : String(currentLimit),
+      });
+      inputEl.min = "1";
+      inputEl.step = "1";
+      inputEl.setCssProps({ width: "100%", "margin-bottom": "12px" });
+
+      const buttonContainer = modal.contentEl.createDiv({
+        cls: "modal-button-container",
+      });
+
+      const cancelButton = buttonContainer.createEl("button", {
+        text: this.plugin.settings.cancelButtonText,
+        cls: "mod-secondary",
+      });
+      cancelButton.addEventListener("click", () => {
+        modal.close();
+      });
+
+      const saveButton = buttonContainer.createEl("button", {
+        text: "Save",
+        cls: "mod-cta",
+      });
+
+      const submit = (): void => {
+        const rawValue = inputEl.value.trim();
+        if (rawValue.length === 0) {
+          finish(null);
+          modal.close();
+          return;
+        }
+
+        const limit = Number(rawValue);
+        if (!Number.isInteger(limit) || limit < 1) {
+          new Notice("Column limit must be a whole number above zero.");
+          return;
+        }
+        finish(limit);
+        modal.close();
+      };
+
+      saveButton.addEventListener("click", submit);
+      inputEl.addEventListener("keydown", (evt) => {
+        if (evt.key !== "Enter") {
+          return;
+        }
+        evt.preventDefault();
+        submit();
+      });
+
+      modal.onOpen = () => {
+        inputEl.focus();
+        inputEl.select();
+      };
+
+      modal.onClose = () => {
+        modal.contentEl.empty();
+        finish(undefined);
+      };
+
+      modal.open();
+    });
+  }
+
   private getUniqueColumnKey(baseColumnKey: string): string {
     const existingColumnKeys = new Set<string>(
       this.canonicalRenderedGroups.map(({ group }) => getColumnKey(group.key)),
@@ -2234,6 +3183,35 @@ export class KanbanView extends BasesView {
     return [...groups, ...syntheticGroups];
   }
 
+  /**
+   * Explains why a drop is refused when strict limits are enabled and the
+   * move would push the target column past its limit.
+   */
+  private getColumnLimitViolation(
+    targetColumnKey: string,
+    draggedPaths: string[],
+  ): string | null {
+    if (!this.getStrictColumnLimitsFromConfig()) {
+      return null;
+    }
+
+    const limit = this.getColumnLimitsFromConfig().get(targetColumnKey);
+    if (limit === undefined) {
+      return null;
+    }
+
+    const targetPaths = new Set(this.getColumnCardPaths(targetColumnKey));
+    const incomingCount = draggedPaths.filter(
+      (path) => !targetPaths.has(path),
+    ).length;
+    if (incomingCount === 0 || targetPaths.size + incomingCount <= limit) {
+      return null;
+    }
+
+    const columnName = this.getColumnDisplayName(targetColumnKey);
+    return `${columnName} is limited to ${limit} cards and has ${targetPaths.size}. Move a card out first.`;
+  }
+
   private getDraggedPaths(sourcePath: string): string[] {
     return getDraggedPathsState(
       this.selectionState,
@@ -2248,6 +3226,7 @@ export class KanbanView extends BasesView {
     groupKey: unknown,
     targetPath: string | null,
     placement: "before" | "after",
+    swimlaneKey: string | null = null,
   ): Promise<void> {
     const draggedPaths = this.getDraggedPaths(sourcePath);
     const sourceEntry = this.entryByPath.get(sourcePath);
@@ -2266,6 +3245,16 @@ export class KanbanView extends BasesView {
       sameColumn: sourceColumnKey === targetColumnKey,
     });
 
+    const limitMessage = this.getColumnLimitViolation(
+      targetColumnKey,
+      draggedPaths,
+    );
+    if (limitMessage !== null) {
+      new Notice(limitMessage);
+      this.viewModel.endCardDrag();
+      return;
+    }
+
     this.updateLocalCardOrderForDrop(
       sourceColumnKey,
       targetColumnKey,
@@ -2280,6 +3269,7 @@ export class KanbanView extends BasesView {
       groupByProperty,
       groupByPropertyKey: getWritablePropertyKey(groupByProperty),
       groupKey,
+      swimlane: this.getSwimlaneTarget(groupByProperty, swimlaneKey),
       draggedPaths,
       entryByPath: this.entryByPath,
     });
@@ -2404,6 +3394,7 @@ export class KanbanView extends BasesView {
       this.viewModel.setBoardData({
         groups: partialGroups,
         groupByProperty,
+        swimlaneProperty: this.getSwimlanePropertyFromConfig(groupByProperty),
         selectedProperties,
         cardCoverEnabled: this.getCardCoverEnabledFromConfig(),
         cardCoverSource: this.getCardCoverSourceFromConfig(),
@@ -2442,7 +3433,7 @@ export class KanbanView extends BasesView {
     this.plugin.unregisterKanbanView(this);
   }
 
-  static getViewOptions() {
-    return getKanbanViewOptions();
+  static getViewOptions(settings: BasesKanbanSettings) {
+    return getKanbanViewOptions(settings);
   }
 }
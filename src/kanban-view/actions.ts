@@ -16,6 +16,7 @@ export type PropertyType =
 
 export type KanbanCardCallbacks = {
   select: (filePath: string, extendSelection: boolean) => void;
+  focus: (filePath: string) => void;
   tagClick: (tag: string) => void;
   dragStart: (filePath: string, cardIndex: number) => void;
   dragEnd: () => void;
@@ -24,6 +25,7 @@ export type KanbanCardCallbacks = {
     filePath: string | null,
     groupKey: unknown,
     placement: "before" | "after",
+    swimlaneKey: string | null,
   ) => void;
   contextMenu: (evt: MouseEvent, entry: BasesEntry) => void;
   linkClick: (evt: MouseEvent, target: string) => void;
@@ -55,6 +57,7 @@ export type KanbanColumnCallbacks = {
   createCard: (
     groupByProperty: BasesPropertyId | null,
     groupKey: unknown,
+    swimlaneKey: string | null,
   ) => void;
   rename: (
     columnKey: string,
@@ -69,6 +72,7 @@ export type KanbanColumnCallbacks = {
     placement: "before" | "after",
   ) => void;
   togglePin: (columnKey: string) => void;
+  editLimit: (columnKey: string) => void;
   cardsScroll: (columnKey: string, scrollTop: number) => void;
 };
 
@@ -78,6 +82,7 @@ export type KanbanBoardCallbacks = {
   click: () => void;
   clearTagFilter: () => void;
   addColumn: () => void;
+  toggleSwimlane: (swimlaneKey: string) => void;
 };
 
 export type KanbanCallbacks = {
@@ -0,0 +1,41 @@
+import { type App, type FuzzyMatch, FuzzySuggestModal } from "obsidian";
+
+export type ColumnSuggestion = {
+  name: string;
+  /** Secondary line, such as the card count or the board the column is on. */
+  detail: string | null;
+  groupKey: unknown;
+};
+
+export class ColumnSuggestModal<
+  T extends ColumnSuggestion = ColumnSuggestion,
+> extends FuzzySuggestModal<T> {
+  constructor(
+    app: App,
+    private readonly columns: T[],
+    placeholder: string,
+    private readonly chooseColumn: (column: T) => void,
+  ) {
+    super(app);
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): T[] {
+    return this.columns;
+  }
+
+  getItemText(column: T): string {
+    return column.name;
+  }
+
+  renderSuggestion(match: FuzzyMatch<T>, el: HTMLElement): void {
+    super.renderSuggestion(match, el);
+    if (match.item.detail !== null) {
+      el.createDiv({ cls: "suggestion-note", text: match.item.detail });
+    }
+  }
+
+  onChooseItem(column: T): void {
+    this.chooseColumn(column);
+  }
+}
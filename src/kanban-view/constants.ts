@@ -10,6 +10,7 @@ export const BACKGROUND_BRIGHTNESS_OPTION_KEY = "backgroundBrightness";
 export const BACKGROUND_BLUR_OPTION_KEY = "backgroundBlur";
 export const COLUMN_TRANSPARENCY_OPTION_KEY = "columnTransparency";
 export const COLUMN_BLUR_OPTION_KEY = "columnBlur";
+export const COLUMN_WIDTH_OPTION_KEY = "columnWidth";
 export const PINNED_COLUMNS_OPTION_KEY = "pinnedColumns";
 export const CARD_COVER_ENABLED_OPTION_KEY = "cardCoverEnabled";
 export const CARD_COVER_SOURCE_OPTION_KEY = "cardCoverSource";
@@ -17,3 +18,8 @@ export const CARD_COVER_HEIGHT_OPTION_KEY = "cardCoverHeight";
 export const CARD_COVER_FIT_OPTION_KEY = "cardCoverFit";
 export const COLUMNS_RIGHT_TO_LEFT_OPTION_KEY = "columnsRightToLeft";
 export const KANBAN_VIEW_ID_OPTION_KEY = "kanbanViewId";
+export const DONE_COLUMN_OPTION_KEY = "doneColumn";
+export const COLUMN_LIMITS_OPTION_KEY = "columnLimits";
+export const STRICT_COLUMN_LIMITS_OPTION_KEY = "strictColumnLimits";
+export const SWIMLANE_PROPERTY_OPTION_KEY = "swimlaneProperty";
+export const COLLAPSED_SWIMLANES_OPTION_KEY = "collapsedSwimlanes";
@@ -12,7 +12,10 @@ export type KanbanContext = {
   app: App;
   settingsStore: Readable<BasesKanbanSettings>;
   selectedPathsStore: Readable<Set<string>>;
+  focusedPathStore: Readable<string | null>;
   pinnedColumnsStore: Readable<Set<string>>;
+  columnLimitsStore: Readable<Map<string, number>>;
+  collapsedSwimlanesStore: Readable<Set<string>>;
   animationsReadyStore: Readable<boolean>;
 };
 
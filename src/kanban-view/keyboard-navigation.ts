@@ -0,0 +1,104 @@
+export type NavigationDirection = "left" | "right" | "up" | "down";
+
+/** Card paths by swimlane row, then column, in display order. */
+export type NavigationGrid = string[][][];
+
+type CardPosition = {
+  row: number;
+  column: number;
+  index: number;
+};
+
+const DIRECTION_BY_KEY: Record<string, NavigationDirection> = {
+  h: "left",
+  arrowleft: "left",
+  l: "right",
+  arrowright: "right",
+  k: "up",
+  arrowup: "up",
+  j: "down",
+  arrowdown: "down",
+};
+
+export function getNavigationDirection(
+  key: string,
+): NavigationDirection | null {
+  return DIRECTION_BY_KEY[key.toLowerCase()] ?? null;
+}
+
+export function findCardPosition(
+  grid: NavigationGrid,
+  path: string,
+): CardPosition | null {
+  for (let row = 0; row < grid.length; row += 1) {
+    const columns = grid[row] ?? [];
+    for (let column = 0; column < columns.length; column += 1) {
+      const index = columns[column]?.indexOf(path) ?? -1;
+      if (index !== -1) {
+        return { row, column, index };
+      }
+    }
+  }
+  return null;
+}
+
+function getFirstPath(grid: NavigationGrid): string | null {
+  for (const columns of grid) {
+    for (const paths of columns) {
+      if (paths.length > 0) {
+        return paths[0];
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Card the cursor lands on when moving from `focusedPath`. Empty columns are
+ * skipped, moving past the end of a cell continues in the same column of the
+ * next swimlane, and the cursor stays put at the edges of the board.
+ */
+export function getNextFocusedPath(
+  grid: NavigationGrid,
+  focusedPath: string | null,
+  direction: NavigationDirection,
+): string | null {
+  const position =
+    focusedPath === null ? null : findCardPosition(grid, focusedPath);
+  if (position === null) {
+    return getFirstPath(grid);
+  }
+
+  const { row, column, index } = position;
+  const columns = grid[row] ?? [];
+
+  if (direction === "left" || direction === "right") {
+    const step = direction === "left" ? -1 : 1;
+    for (
+      let next = column + step;
+      next >= 0 && next < columns.length;
+      next += step
+    ) {
+      const paths = columns[next] ?? [];
+      if (paths.length > 0) {
+        return paths[Math.min(index, paths.length - 1)];
+      }
+    }
+    return focusedPath;
+  }
+
+  const paths = columns[column] ?? [];
+  const step = direction === "up" ? -1 : 1;
+  const nextIndex = index + step;
+  if (nextIndex >= 0 && nextIndex < paths.length) {
+    return paths[nextIndex];
+  }
+
+  for (let next = row + step; next >= 0 && next < grid.length; next += step) {
+    const nextPaths = grid[next]?.[column] ?? [];
+    if (nextPaths.length > 0) {
+      return step === 1 ? nextPaths[0] : nextPaths[nextPaths.length - 1];
+    }
+  }
+  return focusedPath;
+}
@@ -2,16 +2,28 @@ import { App, BasesEntry, type BasesPropertyId } from "obsidian";
 import type { TFile } from "obsidian";
 
 import {
+  getColumnKey,
   getTargetGroupValue,
   isSameGroupValue,
   resolveFrontmatterKey,
 } from "./utils";
 import type { PropertyEditorMode } from "./actions";
 
+/** Second property written when cards are created or dropped in a swimlane. */
+export type SwimlaneTarget = {
+  property: BasesPropertyId;
+  propertyKey: string;
+  /** Row key, as produced by `getColumnKey`. */
+  key: string;
+  /** Frontmatter value of the row, written as is so links and lists survive. */
+  value: unknown;
+};
+
 type CreateCardForColumnArgs = {
   groupByProperty: BasesPropertyId | null;
   groupByPropertyKey: string | null;
   groupKey: unknown;
+  swimlane: SwimlaneTarget | null;
   createFileForView: (
     filePath: string | undefined,
     updateFrontmatter: (frontmatter: Record<string, unknown>) => void,
@@ -22,6 +34,7 @@ type HandleDropArgs = {
   groupByProperty: BasesPropertyId | null;
   groupByPropertyKey: string | null;
   groupKey: unknown;
+  swimlane: SwimlaneTarget | null;
   draggedPaths: string[];
   entryByPath: Map<string, BasesEntry>;
 };
@@ -45,26 +58,49 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
+function setFrontmatterValue(
+  frontmatter: Record<string, unknown>,
+  propertyId: BasesPropertyId,
+  propertyKey: string,
+  value: unknown,
+): void {
+  const key = resolveFrontmatterKey(frontmatter, propertyId, propertyKey);
+  if (value === null || value === undefined) {
+    delete frontmatter[key];
+  } else {
+    frontmatter[key] = value;
+  }
+}
+
 export class KanbanMutationService {
   constructor(private readonly app: App) {}
 
   async createCardForColumn(args: CreateCardForColumnArgs): Promise<void> {
-    const { groupByProperty, groupByPropertyKey, groupKey, createFileForView } =
-      args;
+    const {
+      groupByProperty,
+      groupByPropertyKey,
+      groupKey,
+      swimlane,
+      createFileForView,
+    } = args;
 
     const targetValue = getTargetGroupValue(groupKey);
     await createFileForView(undefined, (frontmatter) => {
       if (groupByProperty !== null && groupByPropertyKey !== null) {
-        const key = resolveFrontmatterKey(
+        setFrontmatterValue(
           frontmatter,
           groupByProperty,
           groupByPropertyKey,
+          targetValue,
+        );
+      }
+      if (swimlane !== null) {
+        setFrontmatterValue(
+          frontmatter,
+          swimlane.property,
+          swimlane.propertyKey,
+          swimlane.value,
         );
-        if (targetValue === null) {
-          delete frontmatter[key];
-        } else {
-          frontmatter[key] = targetValue;
-        }
       }
     });
   }
@@ -74,6 +110,7 @@ export class KanbanMutationService {
       groupByProperty,
       groupByPropertyKey,
       groupKey,
+      swimlane,
       draggedPaths,
       entryByPath,
     } = args;
@@ -90,8 +127,14 @@ export class KanbanMutationService {
         continue;
       }
 
-      const currentValue = entry.getValue(groupByProperty);
-      if (isSameGroupValue(currentValue, targetValue)) {
+      const groupChanged = !isSameGroupValue(
+        entry.getValue(groupByProperty),
+        targetValue,
+      );
+      const swimlaneChanged =
+        swimlane !== null &&
+        getColumnKey(entry.getValue(swimlane.property)) !== swimlane.key;
+      if (!groupChanged && !swimlaneChanged) {
         continue;
       }
 
@@ -102,17 +145,22 @@ export class KanbanMutationService {
             return;
           }
 
-          const key = resolveFrontmatterKey(
-            frontmatter,
-            groupByProperty,
-            groupByPropertyKey,
-          );
-          if (targetValue === null) {
-            delete frontmatter[key];
-            return;
+          if (groupChanged) {
+            setFrontmatterValue(
+              frontmatter,
+              groupByProperty,
+              groupByPropertyKey,
+              targetValue,
+            );
+          }
+          if (swimlane !== null && swimlaneChanged) {
+            setFrontmatterValue(
+              frontmatter,
+              swimlane.property,
+              swimlane.propertyKey,
+              swimlane.value,
+            );
           }
-
-          frontmatter[key] = targetValue;
         },
       );
     }
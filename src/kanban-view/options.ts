@@ -1,3 +1,4 @@
+import type { BasesKanbanSettings } from "../settings";
 import {
   BACKGROUND_BLUR_OPTION_KEY,
   BACKGROUND_BRIGHTNESS_OPTION_KEY,
@@ -6,16 +7,28 @@ import {
   CARD_COVER_FIT_OPTION_KEY,
   CARD_COVER_HEIGHT_OPTION_KEY,
   CARD_COVER_SOURCE_OPTION_KEY,
+  COLLAPSED_SWIMLANES_OPTION_KEY,
   COLUMN_BLUR_OPTION_KEY,
+  COLUMN_LIMITS_OPTION_KEY,
   COLUMN_ORDER_OPTION_KEY,
   COLUMN_TRANSPARENCY_OPTION_KEY,
+  COLUMN_WIDTH_OPTION_KEY,
   COLUMNS_RIGHT_TO_LEFT_OPTION_KEY,
+  DONE_COLUMN_OPTION_KEY,
   KANBAN_VIEW_ID_OPTION_KEY,
   LOCAL_CARD_ORDER_OPTION_KEY,
   PINNED_COLUMNS_OPTION_KEY,
+  STRICT_COLUMN_LIMITS_OPTION_KEY,
+  SWIMLANE_PROPERTY_OPTION_KEY,
 } from "./constants";
 
-export function getKanbanViewOptions() {
+/**
+ * Options of a kanban view. Sliders that fall back to a plugin setting show
+ * that setting as their default.
+ */
+export function getKanbanViewOptions(
+  settings: Pick<BasesKanbanSettings, "columnWidth">,
+) {
   return [
     {
       key: COLUMN_ORDER_OPTION_KEY,
@@ -41,6 +54,22 @@ export function getKanbanViewOptions() {
       placeholder: "Managed by pin button",
       shouldHide: () => true,
     },
+    {
+      key: COLUMN_LIMITS_OPTION_KEY,
+      displayName: "Column limits",
+      type: "text" as const,
+      default: "",
+      placeholder: "Managed by column card count",
+      shouldHide: () => true,
+    },
+    {
+      key: COLLAPSED_SWIMLANES_OPTION_KEY,
+      displayName: "Collapsed swimlanes",
+      type: "text" as const,
+      default: "",
+      placeholder: "Managed by swimlane header",
+      shouldHide: () => true,
+    },
     {
       key: KANBAN_VIEW_ID_OPTION_KEY,
       displayName: "Kanban view ID",
@@ -92,6 +121,15 @@ export function getKanbanViewOptions() {
       max: 20,
       step: 1,
     },
+    {
+      key: COLUMN_WIDTH_OPTION_KEY,
+      displayName: "Column width",
+      type: "slider" as const,
+      default: settings.columnWidth,
+      min: 200,
+      max: 500,
+      step: 10,
+    },
     {
       key: CARD_COVER_ENABLED_OPTION_KEY,
       displayName: "Show card cover",
@@ -125,11 +163,31 @@ export function getKanbanViewOptions() {
         "contain-fixed": "Contain (fixed height)",
       },
     },
+    {
+      key: SWIMLANE_PROPERTY_OPTION_KEY,
+      displayName: "Swimlanes",
+      type: "property" as const,
+      placeholder: "None",
+      filter: (propertyId: string) => propertyId.startsWith("note."),
+    },
     {
       key: COLUMNS_RIGHT_TO_LEFT_OPTION_KEY,
       displayName: "Columns right to left",
       type: "toggle" as const,
       default: false,
     },
+    {
+      key: DONE_COLUMN_OPTION_KEY,
+      displayName: "Done column",
+      type: "text" as const,
+      default: "",
+      placeholder: "Checked when copying cards as a checklist",
+    },
+    {
+      key: STRICT_COLUMN_LIMITS_OPTION_KEY,
+      displayName: "Block moves past column limits",
+      type: "toggle" as const,
+      default: false,
+    },
   ];
 }
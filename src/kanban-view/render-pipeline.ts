@@ -1,5 +1,6 @@
 import type { BasesEntry, BasesEntryGroup, BasesPropertyId } from "obsidian";
 
+import { groupSwimlanes, type RenderedSwimlane } from "./swimlanes";
 import {
   getColumnKey,
   getEntryTagValues,
@@ -113,6 +114,14 @@ export function buildRenderedGroups(
   }));
 }
 
+/** Rows of the board split by a second property; see `groupSwimlanes`. */
+export function buildSwimlanes(
+  groups: RenderedGroup[],
+  swimlaneProperty: BasesPropertyId,
+): RenderedSwimlane[] {
+  return groupSwimlanes(groups, swimlaneProperty, getColumnKey);
+}
+
 type TagFilterParams = {
   activeTagFilters: string[];
   selectedProperties: BasesPropertyId[];
@@ -79,6 +79,25 @@ export function selectCard(
   };
 }
 
+/**
+ * Add or remove a single card, keeping the rest of the selection.
+ */
+export function toggleCardSelection(
+  state: SelectionState,
+  filePath: string,
+  cardIndex: number,
+): SelectionState {
+  const nextSelection = new Set(state.selectedPaths);
+  if (!nextSelection.delete(filePath)) {
+    nextSelection.add(filePath);
+  }
+
+  return {
+    selectedPaths: nextSelection,
+    lastSelectedIndex: nextSelection.size === 0 ? null : cardIndex,
+  };
+}
+
 export function clearSelection(): SelectionState {
   return {
     selectedPaths: new Set<string>(),
@@ -181,6 +181,115 @@ export function serializePinnedColumns(columns: string[]): string {
   return columns.join(",");
 }
 
+export type ColumnLimitsCache = {
+  limits: Map<string, number> | null;
+  raw: string;
+};
+
+/**
+ * Column limits are stored as a JSON object of column key to the maximum
+ * number of cards. Non-positive and non-integer limits are dropped.
+ */
+export function parseColumnLimits(
+  configValue: unknown,
+  cache: ColumnLimitsCache,
+): { limits: Map<string, number>; cache: ColumnLimitsCache } {
+  if (typeof configValue !== "string" || configValue.trim().length === 0) {
+    if (cache.limits !== null) {
+      logCacheEvent("Column limits cache cleared - empty config");
+    }
+    return { limits: new Map(), cache: { limits: null, raw: "" } };
+  }
+
+  if (configValue === cache.raw && cache.limits !== null) {
+    logCacheEvent("Column limits cache HIT");
+    return { limits: cache.limits, cache };
+  }
+
+  logCacheEvent("Column limits cache MISS - parsing config");
+
+  const limits = new Map<string, number>();
+  try {
+    const parsedValue = JSON.parse(configValue) as unknown;
+    if (
+      parsedValue !== null &&
+      typeof parsedValue === "object" &&
+      !Array.isArray(parsedValue)
+    ) {
+      for (const [columnKey, limit] of Object.entries(parsedValue)) {
+        if (
+          columnKey.trim().length > 0 &&
+          typeof limit === "number" &&
+          Number.isInteger(limit) &&
+          limit > 0
+        ) {
+          limits.set(columnKey, limit);
+        }
+      }
+    }
+  } catch {
+    logCacheEvent("Column limits parse FAILED");
+  }
+
+  logCacheEvent("Column limits cache SAVED", { columnCount: limits.size });
+  return { limits, cache: { limits, raw: configValue } };
+}
+
+export function serializeColumnLimits(limits: Map<string, number>): string {
+  return limits.size === 0 ? "" : JSON.stringify(Object.fromEntries(limits));
+}
+
+export type CollapsedSwimlanesCache = {
+  swimlanes: Set<string> | null;
+  raw: string;
+};
+
+/**
+ * Collapsed swimlanes are stored as a JSON array because property values may
+ * contain commas.
+ */
+export function parseCollapsedSwimlanes(
+  configValue: unknown,
+  cache: CollapsedSwimlanesCache,
+): { swimlanes: Set<string>; cache: CollapsedSwimlanesCache } {
+  if (typeof configValue !== "string" || configValue.trim().length === 0) {
+    if (cache.swimlanes !== null) {
+      logCacheEvent("Collapsed swimlanes cache cleared - empty config");
+    }
+    return { swimlanes: new Set(), cache: { swimlanes: null, raw: "" } };
+  }
+
+  if (configValue === cache.raw && cache.swimlanes !== null) {
+    logCacheEvent("Collapsed swimlanes cache HIT");
+    return { swimlanes: cache.swimlanes, cache };
+  }
+
+  logCacheEvent("Collapsed swimlanes cache MISS - parsing config");
+
+  const swimlanes = new Set<string>();
+  try {
+    const parsedValue = JSON.parse(configValue) as unknown;
+    if (Array.isArray(parsedValue)) {
+      for (const swimlaneKey of parsedValue) {
+        if (typeof swimlaneKey === "string" && swimlaneKey.length > 0) {
+          swimlanes.add(swimlaneKey);
+        }
+      }
+    }
+  } catch {
+    logCacheEvent("Collapsed swimlanes parse FAILED");
+  }
+
+  logCacheEvent("Collapsed swimlanes cache SAVED", {
+    swimlaneCount: swimlanes.size,
+  });
+  return { swimlanes, cache: { swimlanes, raw: configValue } };
+}
+
+export function serializeCollapsedSwimlanes(swimlanes: Set<string>): string {
+  return swimlanes.size === 0 ? "" : JSON.stringify([...swimlanes]);
+}
+
 export type CardOrderCache = {
   order: Map<string, string[]> | null;
   raw: string;
@@ -0,0 +1,76 @@
+import type { BasesEntry, BasesEntryGroup, BasesPropertyId } from "obsidian";
+
+import { NO_VALUE_COLUMN_KEY } from "./constants";
+
+type SwimlaneGroup = {
+  group: BasesEntryGroup;
+  entries: BasesEntry[];
+};
+
+export type RenderedSwimlane = {
+  key: string;
+  value: unknown;
+  groups: SwimlaneGroup[];
+};
+
+/**
+ * Split the board into rows by a second property. Every row keeps the full
+ * column set so cards can be dropped into any cell; rows are sorted by value
+ * with cards without a value last. `getKey` turns a column or row value into
+ * its key, with `NO_VALUE_COLUMN_KEY` for empty values.
+ */
+export function groupSwimlanes(
+  groups: SwimlaneGroup[],
+  swimlaneProperty: BasesPropertyId,
+  getKey: (value: unknown) => string,
+): RenderedSwimlane[] {
+  const valueByKey = new Map<string, unknown>();
+  const entriesByCell = new Map<string, Map<string, BasesEntry[]>>();
+
+  for (const { group, entries } of groups) {
+    const columnKey = getKey(group.key);
+    for (const entry of entries) {
+      const value = entry.getValue(swimlaneProperty);
+      const swimlaneKey = getKey(value);
+      let cells = entriesByCell.get(swimlaneKey);
+      if (cells === undefined) {
+        cells = new Map();
+        entriesByCell.set(swimlaneKey, cells);
+        valueByKey.set(swimlaneKey, value);
+      }
+
+      const cellEntries = cells.get(columnKey);
+      if (cellEntries === undefined) {
+        cells.set(columnKey, [entry]);
+      } else {
+        cellEntries.push(entry);
+      }
+    }
+  }
+
+  if (valueByKey.size === 0) {
+    valueByKey.set(NO_VALUE_COLUMN_KEY, null);
+  }
+
+  const swimlaneKeys = [...valueByKey.keys()].sort((left, right) => {
+    if (left === NO_VALUE_COLUMN_KEY || right === NO_VALUE_COLUMN_KEY) {
+      return (
+        Number(left === NO_VALUE_COLUMN_KEY) -
+        Number(right === NO_VALUE_COLUMN_KEY)
+      );
+    }
+    return left.localeCompare(right, undefined, { numeric: true });
+  });
+
+  return swimlaneKeys.map((swimlaneKey) => {
+    const cells = entriesByCell.get(swimlaneKey);
+    return {
+      key: swimlaneKey,
+      value: valueByKey.get(swimlaneKey),
+      groups: groups.map(({ group }) => ({
+        group,
+        entries: cells?.get(getKey(group.key)) ?? [],
+      })),
+    };
+  });
+}
@@ -6,28 +6,36 @@ import { getColumnKey } from "./utils";
 
 export type KanbanViewModel = {
   selectedPathsStore: Writable<Set<string>>;
+  focusedPathStore: Writable<string | null>;
   activeTagFiltersStore: Writable<string[]>;
   groupsStore: Writable<RenderedGroup[]>;
   groupByPropertyStore: Writable<BasesPropertyId | null>;
+  swimlanePropertyStore: Writable<BasesPropertyId | null>;
   selectedPropertiesStore: Writable<BasesPropertyId[]>;
   cardCoverEnabledStore: Writable<boolean>;
   cardCoverSourceStore: Writable<string>;
   columnScrollByKeyStore: Writable<Record<string, number>>;
   pinnedColumnsStore: Writable<Set<string>>;
+  columnLimitsStore: Writable<Map<string, number>>;
+  collapsedSwimlanesStore: Writable<Set<string>>;
   draggingCardSourcePathStore: Writable<string | null>;
   draggingColumnSourceKeyStore: Writable<string | null>;
   animationsReadyStore: Writable<boolean>;
   setSelectedPaths: (selectedPaths: Set<string>) => void;
+  setFocusedPath: (focusedPath: string | null) => void;
   setActiveTagFilters: (activeTagFilters: string[]) => void;
   setBoardData: (params: {
     groups: RenderedGroup[];
     groupByProperty: BasesPropertyId | null;
+    swimlaneProperty: BasesPropertyId | null;
     selectedProperties: BasesPropertyId[];
     cardCoverEnabled: boolean;
     cardCoverSource: string;
   }) => void;
   setColumnScrollByKey: (scrollByKey: Record<string, number>) => void;
   setPinnedColumns: (columns: Set<string>) => void;
+  setColumnLimits: (limits: Map<string, number>) => void;
+  setCollapsedSwimlanes: (swimlanes: Set<string>) => void;
   getColumnScrollByKey: () => Record<string, number>;
   setAnimationsReady: (ready: boolean) => void;
   startCardDrag: (filePath: string) => void;
@@ -38,14 +46,18 @@ export type KanbanViewModel = {
 
 export function createKanbanViewModel(): KanbanViewModel {
   const selectedPathsStore = writable(new Set<string>());
+  const focusedPathStore = writable<string | null>(null);
   const activeTagFiltersStore = writable<string[]>([]);
   const groupsStore = writable<RenderedGroup[]>([]);
   const groupByPropertyStore = writable<BasesPropertyId | null>(null);
+  const swimlanePropertyStore = writable<BasesPropertyId | null>(null);
   const selectedPropertiesStore = writable<BasesPropertyId[]>([]);
   const cardCoverEnabledStore = writable<boolean>(true);
   const cardCoverSourceStore = writable<string>("cover");
   const columnScrollByKeyStore = writable<Record<string, number>>({});
   const pinnedColumnsStore = writable(new Set<string>());
+  const columnLimitsStore = writable(new Map<string, number>());
+  const collapsedSwimlanesStore = writable(new Set<string>());
   const draggingCardSourcePathStore = writable<string | null>(null);
   const draggingColumnSourceKeyStore = writable<string | null>(null);
   const animationsReadyStore = writable(false);
@@ -120,14 +132,18 @@ export function createKanbanViewModel(): KanbanViewModel {
 
   return {
     selectedPathsStore,
+    focusedPathStore,
     activeTagFiltersStore,
     groupsStore,
     groupByPropertyStore,
+    swimlanePropertyStore,
     selectedPropertiesStore,
     cardCoverEnabledStore,
     cardCoverSourceStore,
     columnScrollByKeyStore,
     pinnedColumnsStore,
+    columnLimitsStore,
+    collapsedSwimlanesStore,
     draggingCardSourcePathStore,
     draggingColumnSourceKeyStore,
     animationsReadyStore,
@@ -136,6 +152,12 @@ export function createKanbanViewModel(): KanbanViewModel {
       selectedPathsStore.set(new Set(selectedPaths));
     },
 
+    setFocusedPath(focusedPath: string | null): void {
+      if (get(focusedPathStore) !== focusedPath) {
+        focusedPathStore.set(focusedPath);
+      }
+    },
+
     setActiveTagFilters(activeTagFilters: string[]): void {
       const currentActiveTagFilters = get(activeTagFiltersStore);
       if (!areStringArraysEqual(currentActiveTagFilters, activeTagFilters)) {
@@ -146,6 +168,7 @@ export function createKanbanViewModel(): KanbanViewModel {
     setBoardData({
       groups,
       groupByProperty,
+      swimlaneProperty,
       selectedProperties,
       cardCoverEnabled,
       cardCoverSource,
@@ -159,6 +182,10 @@ export function createKanbanViewModel(): KanbanViewModel {
         groupByPropertyStore.set(groupByProperty);
       }
 
+      if (get(swimlanePropertyStore) !== swimlaneProperty) {
+        swimlanePropertyStore.set(swimlaneProperty);
+      }
+
       const currentSelectedProperties = get(selectedPropertiesStore);
       if (
         !areStringArraysEqual(currentSelectedProperties, selectedProperties)
@@ -183,6 +210,14 @@ export function createKanbanViewModel(): KanbanViewModel {
       pinnedColumnsStore.set(columns);
     },
 
+    setColumnLimits(limits: Map<string, number>): void {
+      columnLimitsStore.set(limits);
+    },
+
+    setCollapsedSwimlanes(swimlanes: Set<string>): void {
+      collapsedSwimlanesStore.set(swimlanes);
+    },
+
     getColumnScrollByKey(): Record<string, number> {
       return get(columnScrollByKeyStore);
     },
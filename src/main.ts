@@ -1,9 +1,37 @@
-import { Notice, Plugin, TFile } from "obsidian";
-import { KanbanView } from "./kanban-view";
+import { Modal, Notice, Plugin, TFile, type TFolder } from "obsidian";
+import { type ColumnMoveTarget, KanbanView } from "./kanban-view";
+import { ColumnSuggestModal } from "./kanban-view/column-suggest-modal";
+import { getColumnName } from "./kanban-view/utils";
 import {
+  type BatchMigrationOutcome,
+  formatMigrationCounts,
+  MigrationFolderSuggestModal,
+  openBatchMigrationModal,
+  openBatchMigrationSummaryModal,
+} from "./migration/batch-modal";
+import {
+  findLegacyKanbanFiles,
+  getMigrationManifestFile,
   isLegacyKanbanFile,
+  isTrelloExportFile,
   migrateLegacyKanbanFile,
+  planLegacyKanbanMigration,
+  readMigrationManifest,
+  revertLegacyKanbanMigration,
 } from "./migration/migrator";
+import { openMigrationPreviewModal } from "./migration/preview-modal";
+import { getCsvHeaders, parseCsvBoard } from "./migration/csv-board";
+import {
+  ImportFileSuggestModal,
+  openCsvMappingModal,
+} from "./migration/import-file-modal";
+import type { LegacyKanbanBoard, MigrationManifest } from "./migration/types";
+import {
+  getNoteColumnValue,
+  type NoteBoard,
+  NoteBoardIndex,
+  setNoteColumn,
+} from "./note-boards";
 import {
   type BasesKanbanSettings,
   DEFAULT_SETTINGS,
@@ -12,6 +40,9 @@ import {
 
 type UnknownRecord = Record<string, unknown>;
 
+const KANBAN_VIEW_TYPE = "cumban";
+const NOTE_COLUMN_STATUS_DELAY_MS = 300;
+
 function getRecordValue(record: unknown, key: string): unknown {
   if (typeof record !== "object" || record === null || Array.isArray(record)) {
     return undefined;
@@ -20,9 +51,32 @@ function getRecordValue(record: unknown, key: string): unknown {
   return (record as UnknownRecord)[key];
 }
 
+/** What a migration notice calls the source board, by its file type. */
+function getMigrationSourceLabel(file: TFile): string {
+  if (file.extension === "csv") {
+    return "CSV board";
+  }
+  return file.extension === "json" ? "Trello board" : "Legacy Kanban";
+}
+
+function getNoteBoardLabel(board: NoteBoard): string {
+  const baseName = board.baseFile.basename;
+  return board.view.name.length === 0
+    ? baseName
+    : `${baseName} › ${board.view.name}`;
+}
+
 export default class BasesKanbanPlugin extends Plugin {
   settings!: BasesKanbanSettings;
   private readonly kanbanViews = new Set<KanbanView>();
+  private readonly offeredMigrationPaths = new Set<string>();
+  private readonly noteBoardIndex = new NoteBoardIndex(
+    this.app,
+    KANBAN_VIEW_TYPE,
+  );
+  private noteColumnStatusEl: HTMLElement | null = null;
+  private noteColumnStatusRequest = 0;
+  private noteColumnStatusTimeout: number | null = null;
 
   async onload(): Promise<void> {
     await this.loadSettings();
@@ -54,6 +108,222 @@ export default class BasesKanbanPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "migrate-legacy-kanban-boards-in-folder",
+      name: "Migrate legacy kanban boards in folder to bases",
+      callback: () => {
+        new MigrationFolderSuggestModal(this.app, (folder) => {
+          void this.handleBatchLegacyKanbanMigration(folder);
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "import-trello-board",
+      name: "Import trello board to bases",
+      callback: () => {
+        new ImportFileSuggestModal(
+          this.app,
+          ["json"],
+          "Choose a trello board JSON export",
+          (file) => {
+            void this.handleLegacyKanbanMigration(file);
+          },
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "import-csv-board",
+      name: "Import CSV file as kanban board",
+      callback: () => {
+        new ImportFileSuggestModal(
+          this.app,
+          ["csv"],
+          "Choose a CSV file",
+          (file) => {
+            void this.handleCsvImport(file);
+          },
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "import-checklist-items-as-cards",
+      name: "Import checklist items as kanban cards",
+      checkCallback: (checking) => {
+        const view = this.getActiveKanbanView();
+        if (view === null) {
+          return false;
+        }
+
+        if (!checking) {
+          new ImportFileSuggestModal(
+            this.app,
+            ["md", "txt"],
+            "Choose a note with a task list or a todo.txt file",
+            (file) => {
+              void view.importChecklistCards(file);
+            },
+          ).open();
+        }
+
+        return true;
+      },
+    });
+
+    const columnMoveCommands: Array<{
+      id: string;
+      name: string;
+      target: ColumnMoveTarget;
+    }> = [
+      {
+        id: "move-selected-cards-to-next-column",
+        name: "Move selected cards to next column",
+        target: "next",
+      },
+      {
+        id: "move-selected-cards-to-previous-column",
+        name: "Move selected cards to previous column",
+        target: "previous",
+      },
+      {
+        id: "move-selected-cards-to-first-column",
+        name: "Move selected cards to first column",
+        target: "first",
+      },
+      {
+        id: "move-selected-cards-to-last-column",
+        name: "Move selected cards to last column",
+        target: "last",
+      },
+    ];
+    for (const { id, name, target } of columnMoveCommands) {
+      this.addCommand({
+        id,
+        name,
+        checkCallback: (checking) => {
+          const view = this.getActiveKanbanView();
+          if (view === null || !view.hasCardSelection()) {
+            return false;
+          }
+
+          if (!checking) {
+            void view.moveSelectionToColumn(target);
+          }
+
+          return true;
+        },
+      });
+    }
+
+    this.addCommand({
+      id: "move-selected-cards-to-column",
+      name: "Move selected cards to column...",
+      checkCallback: (checking) => {
+        const view = this.getActiveKanbanView();
+        if (view === null || !view.hasCardSelection()) {
+          return false;
+        }
+
+        if (!checking) {
+          view.openMoveSelectionToColumnPicker();
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "copy-selected-cards-as-checklist",
+      name: "Copy selected cards as checklist",
+      checkCallback: (checking) => {
+        const view = this.getActiveKanbanView();
+        if (view === null || !view.hasCardSelection()) {
+          return false;
+        }
+
+        if (!checking) {
+          void view.copySelectionAsChecklist();
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "add-selected-cards-as-checklist-to-note",
+      name: "Add selected cards as checklist to note",
+      checkCallback: (checking) => {
+        const view = this.getActiveKanbanView();
+        if (view === null || !view.hasCardSelection()) {
+          return false;
+        }
+
+        if (!checking) {
+          view.appendSelectionAsChecklistToNote();
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "export-kanban-board-csv",
+      name: "Export kanban board to CSV",
+      checkCallback: (checking) => {
+        const view = this.getActiveKanbanView();
+        if (view === null) {
+          return false;
+        }
+
+        if (!checking) {
+          view.exportToCsv();
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "export-kanban-board-legacy-markdown",
+      name: "Export kanban board to legacy kanban Markdown",
+      checkCallback: (checking) => {
+        const view = this.getActiveKanbanView();
+        if (view === null) {
+          return false;
+        }
+
+        if (!checking) {
+          view.exportToLegacyMarkdown();
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "revert-legacy-kanban-migration",
+      name: "Revert legacy kanban migration",
+      checkCallback: (checking) => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!(activeFile instanceof TFile)) {
+          return false;
+        }
+
+        const manifestFile = getMigrationManifestFile(this, activeFile);
+        if (manifestFile === null) {
+          return false;
+        }
+
+        if (!checking) {
+          void this.handleLegacyKanbanMigrationRevert(manifestFile);
+        }
+
+        return true;
+      },
+    });
+
     this.addCommand({
       id: "select-kanban-background-image",
       name: "Select kanban background image",
@@ -89,12 +359,119 @@ export default class BasesKanbanPlugin extends Plugin {
       },
     });
 
-    this.registerBasesView("cumban", {
+    this.addCommand({
+      id: "move-note-to-kanban-column",
+      name: "Move to kanban column...",
+      checkCallback: (checking) => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (
+          !(activeFile instanceof TFile) ||
+          activeFile.extension !== "md" ||
+          this.noteBoardIndex.findLoadedNoteBoards(activeFile).length === 0
+        ) {
+          return false;
+        }
+
+        if (!checking) {
+          void this.openNoteColumnPicker(activeFile);
+        }
+
+        return true;
+      },
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (
+          !(file instanceof TFile) ||
+          file.extension !== "md" ||
+          this.noteBoardIndex.findLoadedNoteBoards(file).length === 0
+        ) {
+          return;
+        }
+
+        menu.addItem((item) => {
+          item
+            .setTitle("Move to kanban column...")
+            .setIcon("lucide-kanban")
+            .onClick(() => {
+              void this.openNoteColumnPicker(file);
+            });
+        });
+      }),
+    );
+
+    const noteColumnStatusEl = this.addStatusBarItem();
+    noteColumnStatusEl.addClass("mod-clickable");
+    this.noteColumnStatusEl = noteColumnStatusEl;
+    this.registerDomEvent(noteColumnStatusEl, "click", () => {
+      const activeFile = this.app.workspace.getActiveFile();
+      if (activeFile instanceof TFile) {
+        void this.openNoteColumnPicker(activeFile);
+      }
+    });
+    this.app.workspace.onLayoutReady(() => {
+      this.scheduleNoteColumnStatusUpdate();
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("file-open", (file) => {
+        this.scheduleNoteColumnStatusUpdate();
+        if (file !== null) {
+          void this.offerLegacyKanbanMigration(file);
+        }
+      }),
+    );
+
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) => {
+        if (file.path === this.app.workspace.getActiveFile()?.path) {
+          this.scheduleNoteColumnStatusUpdate();
+        }
+      }),
+    );
+
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        if (this.noteBoardIndex.isBaseFile(file)) {
+          this.noteBoardIndex.invalidate(file.path);
+          this.scheduleNoteColumnStatusUpdate();
+        }
+      }),
+    );
+
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        this.noteBoardIndex.invalidate(file.path);
+      }),
+    );
+    this.register(() => {
+      if (this.noteColumnStatusTimeout !== null) {
+        window.clearTimeout(this.noteColumnStatusTimeout);
+      }
+    });
+
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        this.noteBoardIndex.invalidate(oldPath);
+        const dismissedPaths = this.settings.migrationPromptDismissedPaths;
+        if (!dismissedPaths.includes(oldPath)) {
+          return;
+        }
+
+        this.settings.migrationPromptDismissedPaths = dismissedPaths.map(
+          (path) => (path === oldPath ? file.path : path),
+        );
+        void this.saveSettings();
+      }),
+    );
+
+    this.registerBasesView(KANBAN_VIEW_TYPE, {
       name: "Bases Kanban",
       icon: "lucide-kanban",
       factory: (controller, containerEl) =>
         new KanbanView(controller, containerEl, this),
-      options: () => KanbanView.getViewOptions(),
+      options: () => KanbanView.getViewOptions(this.settings),
     });
   }
 
@@ -172,16 +549,205 @@ export default class BasesKanbanPlugin extends Plugin {
     }
   }
 
-  private async handleLegacyKanbanMigration(file: TFile): Promise<void> {
-    const eligible = await isLegacyKanbanFile(this, file);
+  /**
+   * Let the user pick a column on any board that shows the note, and move
+   * the note there by updating that board's group-by property.
+   */
+  private async openNoteColumnPicker(file: TFile): Promise<void> {
+    const boards = await this.noteBoardIndex.findNoteBoards(file);
+    if (boards.length === 0) {
+      new Notice(`"${file.basename}" is not on any kanban board.`);
+      return;
+    }
+
+    const columnsByBoard = this.noteBoardIndex.getBoardColumns(boards);
+    const columns = boards.flatMap((board) => {
+      const currentValue = getNoteColumnValue(this.app, file, board);
+      const detail = getNoteBoardLabel(board);
+      return [...(columnsByBoard.get(board) ?? []), null]
+        .filter((value) => value !== currentValue)
+        .map((value) => ({
+          name: getColumnName(value, this.settings.emptyColumnLabel),
+          detail,
+          groupKey: value,
+          board,
+        }));
+    });
+    new ColumnSuggestModal(
+      this.app,
+      columns,
+      `Move "${file.basename}" to column...`,
+      (column) => {
+        void this.moveNoteToColumn(file, column.board, column.groupKey);
+      },
+    ).open();
+  }
+
+  /** Write the chosen column, reporting failures instead of throwing. */
+  private async moveNoteToColumn(
+    file: TFile,
+    board: NoteBoard,
+    value: string | null,
+  ): Promise<void> {
+    try {
+      await setNoteColumn(this.app, file, board, value);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Moving "${file.basename}" failed: ${message}`);
+    }
+  }
+
+  /** Saves fire metadata changes while typing, so updates are batched. */
+  private scheduleNoteColumnStatusUpdate(): void {
+    if (this.noteColumnStatusTimeout !== null) {
+      window.clearTimeout(this.noteColumnStatusTimeout);
+    }
+    this.noteColumnStatusTimeout = window.setTimeout(() => {
+      this.noteColumnStatusTimeout = null;
+      void this.updateNoteColumnStatus();
+    }, NOTE_COLUMN_STATUS_DELAY_MS);
+  }
+
+  /** Show the active note's column on its primary board in the status bar. */
+  private async updateNoteColumnStatus(): Promise<void> {
+    const statusEl = this.noteColumnStatusEl;
+    if (statusEl === null) {
+      return;
+    }
+
+    const request = ++this.noteColumnStatusRequest;
+    const activeFile = this.app.workspace.getActiveFile();
+    const boards =
+      activeFile instanceof TFile && activeFile.extension === "md"
+        ? await this.noteBoardIndex.findNoteBoards(activeFile)
+        : [];
+    if (request !== this.noteColumnStatusRequest) {
+      return;
+    }
+
+    const primaryBoard = boards[0];
+    if (activeFile === null || primaryBoard === undefined) {
+      statusEl.empty();
+      statusEl.toggle(false);
+      return;
+    }
+
+    const columnName = getColumnName(
+      getNoteColumnValue(this.app, activeFile, primaryBoard),
+      this.settings.emptyColumnLabel,
+    );
+    statusEl.setText(columnName);
+    statusEl.setAttribute(
+      "aria-label",
+      `${getNoteBoardLabel(primaryBoard)}: ${columnName}`,
+    );
+    statusEl.toggle(true);
+  }
+
+  /**
+   * Suggest migrating a legacy board when it is opened, at most once per
+   * file and session, unless the user turned the prompt off for the file.
+   */
+  private async offerLegacyKanbanMigration(file: TFile): Promise<void> {
+    if (
+      this.offeredMigrationPaths.has(file.path) ||
+      this.settings.migrationPromptDismissedPaths.includes(file.path) ||
+      getMigrationManifestFile(this, file) !== null ||
+      !(await isLegacyKanbanFile(this, file))
+    ) {
+      return;
+    }
+    this.offeredMigrationPaths.add(file.path);
+
+    const fragment = document.createDocumentFragment();
+    fragment.createDiv({
+      text: `"${file.basename}" is a legacy Kanban board. Migrate it to Bases?`,
+    });
+    const actionsEl = fragment.createDiv({
+      cls: "bases-kanban-migration-prompt-actions",
+    });
+    const migrateButton = actionsEl.createEl("button", {
+      text: "Migrate",
+      cls: "mod-cta",
+    });
+    const dismissButton = actionsEl.createEl("button", {
+      text: "Don't ask again for this file",
+    });
+
+    const notice = new Notice(fragment, 0);
+    migrateButton.addEventListener("click", () => {
+      notice.hide();
+      void this.handleLegacyKanbanMigration(file);
+    });
+    dismissButton.addEventListener("click", () => {
+      notice.hide();
+      this.settings.migrationPromptDismissedPaths = [
+        ...this.settings.migrationPromptDismissedPaths,
+        file.path,
+      ];
+      void this.saveSettings();
+    });
+  }
+
+  private async handleCsvImport(file: TFile): Promise<void> {
+    try {
+      const content = await this.app.vault.read(file);
+      const mapping = await openCsvMappingModal(
+        this.app,
+        getCsvHeaders(content),
+        this.settings.migrationGroupProperty,
+        this.settings.cancelButtonText,
+      );
+      if (mapping === null) {
+        return;
+      }
+
+      await this.handleLegacyKanbanMigration(
+        file,
+        parseCsvBoard(content, mapping),
+      );
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`CSV import failed: ${message}`);
+    }
+  }
+
+  private async handleLegacyKanbanMigration(
+    file: TFile,
+    board?: LegacyKanbanBoard,
+  ): Promise<void> {
+    const eligible =
+      board !== undefined ||
+      (file.extension === "json"
+        ? await isTrelloExportFile(this, file)
+        : await isLegacyKanbanFile(this, file));
     if (!eligible) {
-      new Notice("Active file is not a supported legacy kanban board.");
+      new Notice(
+        file.extension === "json"
+          ? `${file.path} is not a Trello board export.`
+          : "Active file is not a supported legacy kanban board.",
+      );
       return;
     }
 
     try {
-      const result = await migrateLegacyKanbanFile(this, file);
-      new Notice(`Base file created: ${result.baseFilePath}`);
+      const plan = await planLegacyKanbanMigration(this, file, board);
+      const confirmed = await openMigrationPreviewModal(
+        this.app,
+        plan,
+        this.settings.cancelButtonText,
+      );
+      if (!confirmed) {
+        return;
+      }
+
+      const result = await migrateLegacyKanbanFile(this, file, plan);
+      new Notice(
+        `${getMigrationSourceLabel(file)} ${result.resynced ? "re-synced" : "migrated"}: ${formatMigrationCounts(result)}.`,
+      );
+      if (!plan.resync) {
+        new Notice(`Base file created: ${result.baseFilePath}`);
+      }
       const baseFile = this.app.vault.getAbstractFileByPath(
         result.baseFilePath,
       );
@@ -190,7 +756,114 @@ export default class BasesKanbanPlugin extends Plugin {
       }
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
-      new Notice(`Legacy Kanban migration failed: ${message}`);
+      new Notice(
+        `${getMigrationSourceLabel(file)} migration failed: ${message}`,
+      );
+    }
+  }
+
+  private async handleBatchLegacyKanbanMigration(
+    folder: TFolder,
+  ): Promise<void> {
+    const boards = await findLegacyKanbanFiles(this, folder);
+    if (boards.length === 0) {
+      new Notice("No legacy kanban boards found.");
+      return;
+    }
+
+    const selectedBoards = await openBatchMigrationModal(
+      this.app,
+      boards,
+      this.settings.cancelButtonText,
+    );
+    if (selectedBoards === null || selectedBoards.length === 0) {
+      return;
     }
+
+    const progressNotice = new Notice("", 0);
+    const outcomes: BatchMigrationOutcome[] = [];
+    for (const [index, board] of selectedBoards.entries()) {
+      progressNotice.setMessage(
+        `Migrating legacy kanban boards (${index + 1}/${selectedBoards.length}): ${board.path}`,
+      );
+      try {
+        const result = await migrateLegacyKanbanFile(this, board);
+        outcomes.push({ boardPath: board.path, result, error: null });
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        outcomes.push({ boardPath: board.path, result: null, error: message });
+      }
+    }
+    progressNotice.hide();
+
+    openBatchMigrationSummaryModal(this.app, outcomes);
+  }
+
+  private async handleLegacyKanbanMigrationRevert(
+    manifestFile: TFile,
+  ): Promise<void> {
+    try {
+      const manifest = await readMigrationManifest(this, manifestFile);
+      const confirmed = await this.openRevertMigrationConfirmModal(manifest);
+      if (!confirmed) {
+        return;
+      }
+
+      await revertLegacyKanbanMigration(this, manifestFile);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Legacy Kanban revert failed: ${message}`);
+    }
+  }
+
+  private openRevertMigrationConfirmModal(
+    manifest: MigrationManifest,
+  ): Promise<boolean> {
+    return new Promise((resolve) => {
+      const modal = new Modal(this.app);
+      let resolved = false;
+
+      const finish = (value: boolean): void => {
+        if (resolved) {
+          return;
+        }
+        resolved = true;
+        resolve(value);
+      };
+
+      modal.titleEl.setText(`Revert migration of "${manifest.boardPath}"?`);
+      modal.contentEl.createEl("p", {
+        text: `${manifest.createdFiles.length} created files will be moved to trash and ${manifest.updatedFiles.length} updated notes will get their previous properties back.`,
+      });
+
+      const buttonContainer = modal.contentEl.createDiv({
+        cls: "modal-button-container",
+      });
+
+      const cancelButton = buttonContainer.createEl("button", {
+        text: this.settings.cancelButtonText,
+        cls: "mod-secondary",
+      });
+      cancelButton.addEventListener("click", () => {
+        finish(false);
+        modal.close();
+      });
+
+      const confirmButton = buttonContainer.createEl("button", {
+        text: "Revert",
+        cls: "mod-warning",
+      });
+      confirmButton.addEventListener("click", () => {
+        finish(true);
+        modal.close();
+      });
+
+      modal.onClose = () => {
+        modal.contentEl.empty();
+        finish(false);
+      };
+
+      modal.open();
+    });
   }
 }
@@ -1,45 +1,92 @@
-function quote(value: string): string {
-  return JSON.stringify(value);
-}
+import {
+  type BaseFilter,
+  type BaseFilterGroup,
+  type BaseViewOptionValue,
+  formatPropertyId,
+  listContainsExpression,
+  serializeBaseFile,
+} from "../base-file";
+import {
+  serializeColumnOrder,
+  serializeLocalCardOrder,
+} from "../kanban-view/state-persistence";
+
+export type MigratedBaseViewOptions = {
+  columnWidth?: number | null;
+  extraProperties?: string[];
+  excludeExpressions?: string[];
+  columnOrder?: string[];
+  localCardOrder?: Map<string, string[]>;
+};
 
 export function buildMigratedBaseFileContent(
   queryProperty: string,
   queryValue: string,
   groupByProperty: string,
+  viewOptions: MigratedBaseViewOptions = {},
 ): string {
-  const filterExpr = `${queryProperty}.contains(${quote(queryValue)})`;
+  const filterItems: BaseFilter[] = [
+    listContainsExpression(queryProperty, queryValue),
+  ];
+  const excludeExpressions = viewOptions.excludeExpressions ?? [];
+  if (excludeExpressions.length > 0) {
+    filterItems.push({ not: excludeExpressions });
+  }
+  const filters: BaseFilterGroup = { and: filterItems };
+
+  // Names with spaces (such as a per-board group property) are written as
+  // `note.` property ids, which the view reads back as frontmatter keys.
+  const groupById = formatPropertyId(groupByProperty);
+  const order = [
+    ...new Set([
+      "file.name",
+      ...[
+        groupByProperty,
+        queryProperty,
+        ...(viewOptions.extraProperties ?? []),
+      ].map(formatPropertyId),
+    ]),
+  ];
+
+  const kanbanOptions: Record<string, BaseViewOptionValue> = {};
+  if (
+    viewOptions.columnWidth !== undefined &&
+    viewOptions.columnWidth !== null
+  ) {
+    kanbanOptions.columnWidth = viewOptions.columnWidth;
+  }
+  const columnOrder = serializeColumnOrder(viewOptions.columnOrder ?? []);
+  if (columnOrder.length > 0) {
+    kanbanOptions.columnOrder = columnOrder;
+  }
+  const localCardOrder = serializeLocalCardOrder(
+    viewOptions.localCardOrder ?? new Map<string, string[]>(),
+  );
+  if (localCardOrder.length > 0) {
+    kanbanOptions.localCardOrder = localCardOrder;
+  }
 
-  return [
-    "views:",
-    "  - type: cumban",
-    "    name: All",
-    "    filters:",
-    "      and:",
-    `        - ${filterExpr}`,
-    "    groupBy:",
-    `      property: ${groupByProperty}`,
-    "      direction: DESC",
-    "    order:",
-    "      - file.name",
-    `      - ${groupByProperty}`,
-    `      - ${queryProperty}`,
-    "    sort:",
-    "      - property: file.mtime",
-    "        direction: DESC",
-    "  - type: table",
-    "    name: Grid",
-    "    filters:",
-    "      and:",
-    `        - ${filterExpr}`,
-    "    order:",
-    "      - file.name",
-    `      - ${groupByProperty}`,
-    `      - ${queryProperty}`,
-    "    sort:",
-    "      - property: file.mtime",
-    "        direction: DESC",
-    "      - property: status",
-    "        direction: ASC",
-    "",
-  ].join("\n");
+  return serializeBaseFile({
+    views: [
+      {
+        type: "cumban",
+        name: "All",
+        filters,
+        groupBy: { property: groupById, direction: "DESC" },
+        order,
+        sort: [{ property: "file.mtime", direction: "DESC" }],
+        options: kanbanOptions,
+      },
+      {
+        type: "table",
+        name: "Grid",
+        filters,
+        order,
+        sort: [
+          { property: "file.mtime", direction: "DESC" },
+          { property: groupById, direction: "ASC" },
+        ],
+      },
+    ],
+  });
 }
@@ -0,0 +1,194 @@
+import {
+  type App,
+  Modal,
+  SuggestModal,
+  type TFile,
+  type TFolder,
+} from "obsidian";
+
+import type { MigrationResult } from "./types";
+
+export type BatchMigrationOutcome = {
+  boardPath: string;
+  result: MigrationResult | null;
+  error: string | null;
+};
+
+export function formatMigrationCounts(result: MigrationResult): string {
+  return `${result.createdCount} created, ${result.updatedCount} updated, ${result.skippedCount} skipped, ${result.archivedCount} archived`;
+}
+
+export class MigrationFolderSuggestModal extends SuggestModal<TFolder> {
+  constructor(
+    app: App,
+    private readonly chooseFolder: (folder: TFolder) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Choose a folder to scan for legacy kanban boards");
+  }
+
+  getSuggestions(query: string): TFolder[] {
+    const normalizedQuery = query.toLowerCase();
+    return this.app.vault
+      .getAllFolders(true)
+      .filter((folder) => folder.path.toLowerCase().includes(normalizedQuery))
+      .sort((left, right) => left.path.localeCompare(right.path));
+  }
+
+  renderSuggestion(folder: TFolder, el: HTMLElement): void {
+    el.createDiv({
+      cls: "suggestion-title",
+      text: folder.isRoot() ? "Entire vault" : folder.path,
+    });
+  }
+
+  onChooseSuggestion(folder: TFolder): void {
+    this.chooseFolder(folder);
+  }
+}
+
+/**
+ * List the boards found by a scan and resolve to the ones the user keeps
+ * selected, or null when the modal is dismissed.
+ */
+export function openBatchMigrationModal(
+  app: App,
+  boards: TFile[],
+  cancelButtonText: string,
+): Promise<TFile[] | null> {
+  return new Promise((resolve) => {
+    const modal = new Modal(app);
+    let resolved = false;
+
+    const finish = (value: TFile[] | null): void => {
+      if (resolved) {
+        return;
+      }
+      resolved = true;
+      resolve(value);
+    };
+
+    const selectedBoards = new Set<TFile>(boards);
+
+    modal.titleEl.setText("Migrate legacy kanban boards");
+    modal.contentEl.createEl("p", {
+      text:
+        boards.length === 1
+          ? "Found 1 legacy board."
+          : `Found ${boards.length} legacy boards.`,
+    });
+
+    const listEl = modal.contentEl.createDiv({
+      cls: "bases-kanban-migration-preview-list",
+    });
+    const boardListEl = listEl.createEl("ul", {
+      cls: "bases-kanban-migration-batch-list",
+    });
+
+    let confirmButton: HTMLButtonElement | null = null;
+    const updateConfirmButton = (): void => {
+      if (confirmButton === null) {
+        return;
+      }
+      confirmButton.disabled = selectedBoards.size === 0;
+      confirmButton.setText(`Migrate ${selectedBoards.size}`);
+    };
+
+    for (const board of boards) {
+      const labelEl = boardListEl.createEl("li").createEl("label");
+      const checkbox = labelEl.createEl("input", { type: "checkbox" });
+      checkbox.checked = true;
+      labelEl.createSpan({ text: board.path });
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) {
+          selectedBoards.add(board);
+        } else {
+          selectedBoards.delete(board);
+        }
+        updateConfirmButton();
+      });
+    }
+
+    const buttonContainer = modal.contentEl.createDiv({
+      cls: "modal-button-container",
+    });
+
+    const cancelButton = buttonContainer.createEl("button", {
+      text: cancelButtonText,
+      cls: "mod-secondary",
+    });
+    cancelButton.addEventListener("click", () => {
+      finish(null);
+      modal.close();
+    });
+
+    confirmButton = buttonContainer.createEl("button", { cls: "mod-cta" });
+    confirmButton.addEventListener("click", () => {
+      finish(boards.filter((board) => selectedBoards.has(board)));
+      modal.close();
+    });
+    updateConfirmButton();
+
+    modal.onClose = () => {
+      modal.contentEl.empty();
+      finish(null);
+    };
+
+    modal.open();
+  });
+}
+
+export function openBatchMigrationSummaryModal(
+  app: App,
+  outcomes: BatchMigrationOutcome[],
+): void {
+  const modal = new Modal(app);
+  const failedCount = outcomes.filter(
+    (outcome) => outcome.error !== null,
+  ).length;
+
+  modal.titleEl.setText("Legacy kanban migration summary");
+  modal.contentEl.createEl("p", {
+    text: `${outcomes.length - failedCount} boards migrated, ${failedCount} failed.`,
+  });
+
+  const listEl = modal.contentEl.createDiv({
+    cls: "bases-kanban-migration-preview-list",
+  });
+  const boardListEl = listEl.createEl("ul", {
+    cls: "bases-kanban-migration-batch-list",
+  });
+  for (const outcome of outcomes) {
+    const itemEl = boardListEl.createEl("li");
+    itemEl.createDiv({ text: outcome.boardPath });
+    if (outcome.result !== null) {
+      itemEl.createDiv({
+        cls: "bases-kanban-migration-preview-muted",
+        text: `${outcome.result.resynced ? "Re-synced" : "Migrated"}: ${formatMigrationCounts(outcome.result)}`,
+      });
+    }
+    if (outcome.error !== null) {
+      itemEl.createDiv({
+        cls: "bases-kanban-migration-batch-error",
+        text: outcome.error,
+      });
+    }
+  }
+
+  const buttonContainer = modal.contentEl.createDiv({
+    cls: "modal-button-container",
+  });
+  const closeButton = buttonContainer.createEl("button", {
+    text: "Close",
+    cls: "mod-cta",
+  });
+  closeButton.addEventListener("click", () => {
+    modal.close();
+  });
+
+  modal.onClose = () => {
+    modal.contentEl.empty();
+  };
+
+  modal.open();
+}
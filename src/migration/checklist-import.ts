@@ -0,0 +1,184 @@
+import { type App, Notice, type TFile } from "obsidian";
+
+import type { BaseFilter } from "../base-file";
+import { evaluateFilter, getRequiredFrontmatter } from "../base-membership";
+import {
+  type ChecklistItem,
+  getChecklistGroupValue,
+  getChecklistItemTitle,
+  parseChecklist,
+  relocateChecklistItems,
+  replaceChecklistItems,
+} from "./checklist";
+import { openChecklistImportModal } from "./import-file-modal";
+import { buildUniqueMarkdownPath } from "./naming";
+
+export type ChecklistImportTarget = {
+  /** Frontmatter key the board groups its columns by. */
+  groupByPropertyKey: string;
+  columns: string[];
+  /** Folder for the new notes; null uses the vault's new-note location. */
+  folderPath: string | null;
+  /** Base and view filters of the board; new notes are made to pass them. */
+  filters: BaseFilter[];
+  cancelButtonText: string;
+};
+
+type CreatedCard = {
+  item: ChecklistItem;
+  note: TFile;
+  /** Whether the board's filters are known to leave the note out. */
+  hidden: boolean;
+};
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Trash the given notes and return the paths that could not be removed. */
+async function trashCreatedNotes(app: App, notes: TFile[]): Promise<string[]> {
+  const leftPaths: string[] = [];
+  for (const note of notes) {
+    try {
+      await app.fileManager.trashFile(note);
+    } catch {
+      leftPaths.push(note.path);
+    }
+  }
+  return leftPaths;
+}
+
+async function createCards(
+  app: App,
+  file: TFile,
+  items: ChecklistItem[],
+  target: ChecklistImportTarget,
+  groupValueOf: (item: ChecklistItem) => string | null,
+): Promise<CreatedCard[]> {
+  const folderPath =
+    target.folderPath ?? app.fileManager.getNewFileParent(file.path).path;
+  const created: CreatedCard[] = [];
+  try {
+    for (const item of items) {
+      const path = buildUniqueMarkdownPath(
+        folderPath === "/" ? "" : folderPath,
+        getChecklistItemTitle(item),
+        (candidatePath) =>
+          app.vault.getAbstractFileByPath(candidatePath) !== null,
+      );
+      const note = await app.vault.create(
+        path,
+        item.body.length > 0 ? `${item.body}\n` : "",
+      );
+      const cardFrontmatter = getRequiredFrontmatter(target.filters);
+      const groupValue = groupValueOf(item);
+      if (groupValue !== null) {
+        cardFrontmatter[target.groupByPropertyKey] = groupValue;
+      }
+      const hidden = target.filters.some(
+        (filter) =>
+          evaluateFilter(filter, {
+            path: note.path,
+            frontmatter: cardFrontmatter,
+            tags: [],
+          }) === false,
+      );
+      created.push({ item, note, hidden });
+      if (Object.keys(cardFrontmatter).length > 0) {
+        await app.fileManager.processFrontMatter(
+          note,
+          (frontmatter: Record<string, unknown>) => {
+            Object.assign(frontmatter, cardFrontmatter);
+          },
+        );
+      }
+    }
+  } catch (error: unknown) {
+    // Leave the vault as it was: the source is only rewritten once every
+    // card exists.
+    const leftPaths = await trashCreatedNotes(
+      app,
+      created.map(({ note }) => note),
+    );
+    const leftMessage =
+      leftPaths.length === 0
+        ? ""
+        : ` (could not remove ${leftPaths.join(", ")})`;
+    throw new Error(`${getErrorMessage(error)}${leftMessage}`);
+  }
+  return created;
+}
+
+/**
+ * Turn the top-level tasks of a note or todo.txt file into cards and replace
+ * them with links to the new notes.
+ */
+export async function importChecklistCards(
+  app: App,
+  file: TFile,
+  target: ChecklistImportTarget,
+): Promise<void> {
+  try {
+    const format = file.extension === "txt" ? "todotxt" : "markdown";
+    const items = parseChecklist(await app.vault.read(file), format);
+    if (items.length === 0) {
+      new Notice(`No checklist items found in ${file.path}`);
+      return;
+    }
+
+    const mapping = await openChecklistImportModal(
+      app,
+      items.length,
+      format,
+      target.columns,
+      target.groupByPropertyKey,
+      target.cancelButtonText,
+    );
+    if (mapping === null) {
+      return;
+    }
+
+    const created = await createCards(app, file, items, target, (item) =>
+      getChecklistGroupValue(item, mapping),
+    );
+
+    // The source may have been edited while the modal was open, so the items
+    // are looked up again right before their lines are replaced.
+    let unlinkedCount = 0;
+    await app.vault.process(file, (content) => {
+      const currentItems = relocateChecklistItems(
+        content,
+        format,
+        created.map(({ item }) => item),
+      );
+      const replacements = created.flatMap(({ note }, index) => {
+        const item = currentItems[index];
+        return item === null || item === undefined
+          ? []
+          : [
+              {
+                item,
+                linkText: app.metadataCache.fileToLinktext(note, file.path),
+              },
+            ];
+      });
+      unlinkedCount = created.length - replacements.length;
+      return replaceChecklistItems(content, replacements);
+    });
+
+    const unlinkedMessage =
+      unlinkedCount === 0
+        ? ""
+        : `; ${unlinkedCount} items changed in the meantime and were not linked`;
+    const hiddenCount = created.filter(({ hidden }) => hidden).length;
+    const hiddenMessage =
+      hiddenCount === 0
+        ? ""
+        : `; ${hiddenCount} of them do not match the board's filters and will not show on it`;
+    new Notice(
+      `${created.length} cards created from ${file.basename}${unlinkedMessage}${hiddenMessage}`,
+    );
+  } catch (error: unknown) {
+    new Notice(`Checklist import failed: ${getErrorMessage(error)}`);
+  }
+}
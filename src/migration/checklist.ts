@@ -0,0 +1,244 @@
+import { dedentContinuationLines, normalizeTitle } from "./parser";
+
+export type ChecklistFormat = "markdown" | "todotxt";
+
+export type ChecklistGroupSource = "checkbox" | "heading" | "priority";
+
+export type ChecklistGroupMapping = {
+  source: ChecklistGroupSource;
+  openValue: string;
+  doneValue: string;
+};
+
+export type ChecklistItem = {
+  /** Item text without list marker, checkbox, dates and priority. */
+  text: string;
+  /** Nested lines below a Markdown item, dedented. */
+  body: string;
+  checked: boolean;
+  heading: string | null;
+  priority: string | null;
+  /** Source text in front of the item text, kept when the item is linked. */
+  prefix: string;
+  startLine: number;
+  endLine: number;
+};
+
+const FRONTMATTER_DELIMITER = "---";
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const HEADING_REGEX = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const TASK_REGEX = /^((?:[-*+]|\d+[.)])\s+\[([^\]])\]\s+)(.*)$/;
+const PRIORITY_REGEX = /^\(([A-Z])\)\s+/;
+const TODO_TXT_DONE_REGEX = /^x\s+/;
+const TODO_TXT_DATE_REGEX = /^\d{4}-\d{2}-\d{2}\s+/;
+const TODO_TXT_PRIORITY_TAG_REGEX = /\s+pri:([A-Z])(?=\s|$)/;
+const FULL_WIKILINK_REGEX = /^\[\[[^\]]+\]\]$/;
+
+function splitLines(content: string): string[] {
+  return content.split(/\r?\n/);
+}
+
+function isNestedLine(line: string): boolean {
+  return /^\s/.test(line) && line.trim().length > 0;
+}
+
+/**
+ * Collect the top-level tasks of a Markdown note with the heading they sit
+ * under. Lines indented below a task become its body. Tasks that are already
+ * a single link are skipped so a note can be imported more than once.
+ */
+export function parseMarkdownChecklist(content: string): ChecklistItem[] {
+  const lines = splitLines(content);
+  const items: ChecklistItem[] = [];
+  let heading: string | null = null;
+  let inFence = false;
+  let index = 0;
+
+  if (lines[0]?.trim() === FRONTMATTER_DELIMITER) {
+    const closingIndex = lines.findIndex(
+      (line, lineIndex) =>
+        lineIndex > 0 && line.trim() === FRONTMATTER_DELIMITER,
+    );
+    index = closingIndex === -1 ? 0 : closingIndex + 1;
+  }
+
+  for (; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+    if (FENCE_REGEX.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      continue;
+    }
+
+    const headingMatch = line.match(HEADING_REGEX);
+    if (headingMatch !== null) {
+      heading = headingMatch[1];
+      continue;
+    }
+
+    const taskMatch = line.match(TASK_REGEX);
+    if (taskMatch === null) {
+      continue;
+    }
+
+    let endLine = index;
+    for (let next = index + 1; next < lines.length; next += 1) {
+      const nextLine = lines[next] ?? "";
+      if (isNestedLine(nextLine)) {
+        endLine = next;
+      } else if (nextLine.trim().length > 0) {
+        break;
+      }
+    }
+
+    const priorityMatch = taskMatch[3].match(PRIORITY_REGEX);
+    const text = taskMatch[3].slice(priorityMatch?.[0].length ?? 0).trim();
+    const body = dedentContinuationLines(lines.slice(index + 1, endLine + 1))
+      .join("\n")
+      .trim();
+    if (text.length > 0 && !FULL_WIKILINK_REGEX.test(text)) {
+      items.push({
+        text,
+        body,
+        checked: taskMatch[2] !== " ",
+        heading,
+        priority: priorityMatch?.[1] ?? null,
+        prefix: `${taskMatch[1]}${priorityMatch?.[0] ?? ""}`,
+        startLine: index,
+        endLine,
+      });
+    }
+    index = endLine;
+  }
+
+  return items;
+}
+
+/**
+ * Read a todo.txt file: one task per line, `x` marks done tasks, `(A)` or
+ * `pri:A` the priority, followed by optional completion and creation dates.
+ */
+export function parseTodoTxt(content: string): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  splitLines(content).forEach((line, index) => {
+    let offset = line.length - line.trimStart().length;
+    const take = (regex: RegExp): RegExpMatchArray | null => {
+      const match = line.slice(offset).match(regex);
+      offset += match?.[0].length ?? 0;
+      return match;
+    };
+    const doneMatch = take(TODO_TXT_DONE_REGEX);
+    const priorityMatch = take(PRIORITY_REGEX);
+    take(TODO_TXT_DATE_REGEX);
+    take(TODO_TXT_DATE_REGEX);
+
+    const rest = line.slice(offset);
+    const priorityTagMatch = rest.match(TODO_TXT_PRIORITY_TAG_REGEX);
+    const text = rest.replace(TODO_TXT_PRIORITY_TAG_REGEX, "").trim();
+    if (text.length === 0 || FULL_WIKILINK_REGEX.test(text)) {
+      return;
+    }
+
+    items.push({
+      text,
+      body: "",
+      checked: doneMatch !== null,
+      heading: null,
+      priority: priorityMatch?.[1] ?? priorityTagMatch?.[1] ?? null,
+      prefix: line.slice(0, offset),
+      startLine: index,
+      endLine: index,
+    });
+  });
+
+  return items;
+}
+
+export function parseChecklist(
+  content: string,
+  format: ChecklistFormat,
+): ChecklistItem[] {
+  return format === "todotxt"
+    ? parseTodoTxt(content)
+    : parseMarkdownChecklist(content);
+}
+
+/**
+ * Note name for an item: link syntax and formatting are dropped, as are
+ * characters that cannot appear in a link target.
+ */
+export function getChecklistItemTitle(item: ChecklistItem): string {
+  return normalizeTitle(item.text)
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#^[\]|]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function getChecklistGroupValue(
+  item: ChecklistItem,
+  mapping: ChecklistGroupMapping,
+): string | null {
+  let value: string | null;
+  if (mapping.source === "heading") {
+    value = item.heading;
+  } else if (mapping.source === "priority") {
+    value = item.priority;
+  } else {
+    value = item.checked ? mapping.doneValue : mapping.openValue;
+  }
+
+  const trimmed = value?.trim() ?? "";
+  return trimmed.length === 0 ? null : trimmed;
+}
+
+/**
+ * Find the items again in content that may have changed since they were
+ * parsed. Items are matched by their text, in order; an item that is gone
+ * maps to null.
+ */
+export function relocateChecklistItems(
+  content: string,
+  format: ChecklistFormat,
+  items: ChecklistItem[],
+): Array<ChecklistItem | null> {
+  const currentItems = parseChecklist(content, format);
+  const usedIndexes = new Set<number>();
+  return items.map((item) => {
+    const index = currentItems.findIndex(
+      (current, currentIndex) =>
+        !usedIndexes.has(currentIndex) && current.text === item.text,
+    );
+    if (index === -1) {
+      return null;
+    }
+    usedIndexes.add(index);
+    return currentItems[index] ?? null;
+  });
+}
+
+/**
+ * Replace imported items (and their nested lines) with a link to the note
+ * created for them, keeping the list marker, checkbox and priority.
+ */
+export function replaceChecklistItems(
+  content: string,
+  replacements: Array<{ item: ChecklistItem; linkText: string }>,
+): string {
+  const newline = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = splitLines(content);
+  const byLastLine = [...replacements].sort(
+    (left, right) => right.item.startLine - left.item.startLine,
+  );
+  for (const { item, linkText } of byLastLine) {
+    lines.splice(
+      item.startLine,
+      item.endLine - item.startLine + 1,
+      `${item.prefix}[[${linkText}]]`,
+    );
+  }
+
+  return lines.join(newline);
+}
@@ -0,0 +1,97 @@
+import { parseCsv } from "../csv";
+import { parseLegacyKanbanSettings } from "./parser";
+import type { LegacyKanbanBoard, LegacyKanbanLane } from "./types";
+
+const TAGS_COLUMN = "tags";
+
+export type CsvBoardMapping = {
+  groupColumn: string;
+  titleColumn: string;
+};
+
+export function getCsvHeaders(content: string): string[] {
+  const [headers] = parseCsv(content);
+  return (headers ?? []).map((header) => header.trim());
+}
+
+function splitTags(value: string): string[] {
+  const tags: string[] = [];
+  for (const part of value.split(/[,\s]+/)) {
+    const tag = part.replace(/^#/, "").trim();
+    if (tag.length > 0 && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
+
+/**
+ * Turn a CSV file with a header row into a board: one card per row, lanes
+ * from `groupColumn` in order of first appearance, and every other
+ * non-empty column kept as a note property. Rows with an empty group cell go
+ * to a "No <groupColumn>" lane.
+ */
+export function parseCsvBoard(
+  content: string,
+  mapping: CsvBoardMapping,
+): LegacyKanbanBoard {
+  const [headerRow, ...rows] = parseCsv(content);
+  const headers = (headerRow ?? []).map((header) => header.trim());
+  const groupIndex = headers.indexOf(mapping.groupColumn);
+  const titleIndex = headers.indexOf(mapping.titleColumn);
+  if (groupIndex === -1 || titleIndex === -1) {
+    throw new Error("CSV file does not contain the mapped columns.");
+  }
+
+  const lanes: LegacyKanbanLane[] = [];
+  const lanesByName = new Map<string, LegacyKanbanLane>();
+  for (const row of rows) {
+    const title = (row[titleIndex] ?? "").trim();
+    if (title.length === 0) {
+      continue;
+    }
+
+    const groupValue = (row[groupIndex] ?? "").trim();
+    const laneName =
+      groupValue.length === 0 ? `No ${mapping.groupColumn}` : groupValue;
+    let lane = lanesByName.get(laneName);
+    if (lane === undefined) {
+      lane = { name: laneName, cards: [] };
+      lanesByName.set(laneName, lane);
+      lanes.push(lane);
+    }
+
+    const properties: Record<string, string> = {};
+    let tags: string[] = [];
+    headers.forEach((header, index) => {
+      const value = (row[index] ?? "").trim();
+      if (
+        index === groupIndex ||
+        index === titleIndex ||
+        header.length === 0 ||
+        value.length === 0
+      ) {
+        return;
+      }
+      if (header.toLowerCase() === TAGS_COLUMN) {
+        tags = splitTags(value);
+        return;
+      }
+      properties[header] = value;
+    });
+
+    lane.cards.push({
+      text: title,
+      title,
+      linkTarget: null,
+      checked: false,
+      date: null,
+      time: null,
+      tags,
+      links: [],
+      properties,
+    });
+  }
+
+  return { lanes, archive: null, settings: parseLegacyKanbanSettings("") };
+}
@@ -0,0 +1,243 @@
+import { type App, Modal, Setting, SuggestModal, type TFile } from "obsidian";
+
+import type {
+  ChecklistFormat,
+  ChecklistGroupMapping,
+  ChecklistGroupSource,
+} from "./checklist";
+import type { CsvBoardMapping } from "./csv-board";
+
+export class ImportFileSuggestModal extends SuggestModal<TFile> {
+  constructor(
+    app: App,
+    private readonly extensions: string[],
+    placeholder: string,
+    private readonly chooseFile: (file: TFile) => void,
+  ) {
+    super(app);
+    this.setPlaceholder(placeholder);
+  }
+
+  getSuggestions(query: string): TFile[] {
+    const normalizedQuery = query.toLowerCase();
+    return this.app.vault
+      .getFiles()
+      .filter(
+        (file) =>
+          this.extensions.includes(file.extension) &&
+          file.path.toLowerCase().includes(normalizedQuery),
+      )
+      .sort((left, right) => left.path.localeCompare(right.path));
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement): void {
+    el.createDiv({ cls: "suggestion-title", text: file.path });
+  }
+
+  onChooseSuggestion(file: TFile): void {
+    this.chooseFile(file);
+  }
+}
+
+function findHeader(headers: string[], candidates: string[]): string | null {
+  return (
+    headers.find((header) => candidates.includes(header.toLowerCase())) ?? null
+  );
+}
+
+/**
+ * Ask which CSV columns hold the card title and the lane. Resolves to null
+ * when the modal is dismissed.
+ */
+export function openCsvMappingModal(
+  app: App,
+  headers: string[],
+  groupProperty: string,
+  cancelButtonText: string,
+): Promise<CsvBoardMapping | null> {
+  return new Promise((resolve) => {
+    const modal = new Modal(app);
+    let resolved = false;
+
+    const finish = (value: CsvBoardMapping | null): void => {
+      if (resolved) {
+        return;
+      }
+      resolved = true;
+      resolve(value);
+    };
+
+    const columns = headers.filter((header) => header.length > 0);
+    const mapping: CsvBoardMapping = {
+      titleColumn:
+        findHeader(columns, ["title", "name", "card"]) ?? columns[0] ?? "",
+      groupColumn:
+        findHeader(columns, [groupProperty.toLowerCase(), "status", "lane"]) ??
+        columns[1] ??
+        columns[0] ??
+        "",
+    };
+
+    modal.titleEl.setText("Import CSV board");
+    modal.contentEl.createEl("p", {
+      text: "Every row becomes a note. Other columns are kept as properties.",
+    });
+
+    const addColumnDropdown = (
+      name: string,
+      desc: string,
+      key: keyof CsvBoardMapping,
+    ): void => {
+      new Setting(modal.contentEl)
+        .setName(name)
+        .setDesc(desc)
+        .addDropdown((dropdown) => {
+          for (const column of columns) {
+            dropdown.addOption(column, column);
+          }
+          dropdown.setValue(mapping[key]).onChange((value) => {
+            mapping[key] = value;
+          });
+        });
+    };
+
+    addColumnDropdown("Title column", "Used as the note name", "titleColumn");
+    addColumnDropdown(
+      "Column for lanes",
+      `Written to the "${groupProperty}" property`,
+      "groupColumn",
+    );
+
+    const buttonContainer = modal.contentEl.createDiv({
+      cls: "modal-button-container",
+    });
+
+    const cancelButton = buttonContainer.createEl("button", {
+      text: cancelButtonText,
+      cls: "mod-secondary",
+    });
+    cancelButton.addEventListener("click", () => {
+      finish(null);
+      modal.close();
+    });
+
+    const confirmButton = buttonContainer.createEl("button", {
+      text: "Continue",
+      cls: "mod-cta",
+    });
+    confirmButton.disabled = columns.length === 0;
+    confirmButton.addEventListener("click", () => {
+      finish({ ...mapping });
+      modal.close();
+    });
+
+    modal.onClose = () => {
+      modal.contentEl.empty();
+      finish(null);
+    };
+
+    modal.open();
+  });
+}
+
+/**
+ * Ask where the column of each imported checklist item comes from. Resolves
+ * to null when the modal is dismissed.
+ */
+export function openChecklistImportModal(
+  app: App,
+  itemCount: number,
+  format: ChecklistFormat,
+  columns: string[],
+  groupProperty: string,
+  cancelButtonText: string,
+): Promise<ChecklistGroupMapping | null> {
+  return new Promise((resolve) => {
+    const modal = new Modal(app);
+    let resolved = false;
+
+    const finish = (value: ChecklistGroupMapping | null): void => {
+      if (resolved) {
+        return;
+      }
+      resolved = true;
+      resolve(value);
+    };
+
+    const mapping: ChecklistGroupMapping = {
+      source: "checkbox",
+      openValue: columns[0] ?? "",
+      doneValue: columns[columns.length - 1] ?? "",
+    };
+
+    modal.titleEl.setText("Import checklist items as cards");
+    modal.contentEl.createEl("p", {
+      text: `${itemCount} items become notes on this board and are replaced with links to them.`,
+    });
+
+    const columnSettings: Setting[] = [];
+    new Setting(modal.contentEl)
+      .setName("Column from")
+      .setDesc(`Written to the "${groupProperty}" property`)
+      .addDropdown((dropdown) => {
+        dropdown.addOption("checkbox", "Checkbox state");
+        if (format === "markdown") {
+          dropdown.addOption("heading", "Heading above the item");
+        }
+        dropdown.addOption("priority", "Priority marker");
+        dropdown.setValue(mapping.source).onChange((value) => {
+          mapping.source = value as ChecklistGroupSource;
+          for (const setting of columnSettings) {
+            setting.settingEl.toggle(mapping.source === "checkbox");
+          }
+        });
+      });
+
+    const addColumnText = (
+      name: string,
+      key: "openValue" | "doneValue",
+    ): void => {
+      columnSettings.push(
+        new Setting(modal.contentEl).setName(name).addText((text) =>
+          text
+            .setPlaceholder("Column name")
+            .setValue(mapping[key])
+            .onChange((value) => {
+              mapping[key] = value;
+            }),
+        ),
+      );
+    };
+    addColumnText("Column for open items", "openValue");
+    addColumnText("Column for done items", "doneValue");
+
+    const buttonContainer = modal.contentEl.createDiv({
+      cls: "modal-button-container",
+    });
+
+    const cancelButton = buttonContainer.createEl("button", {
+      text: cancelButtonText,
+      cls: "mod-secondary",
+    });
+    cancelButton.addEventListener("click", () => {
+      finish(null);
+      modal.close();
+    });
+
+    const confirmButton = buttonContainer.createEl("button", {
+      text: "Import",
+      cls: "mod-cta",
+    });
+    confirmButton.addEventListener("click", () => {
+      finish({ ...mapping });
+      modal.close();
+    });
+
+    modal.onClose = () => {
+      modal.contentEl.empty();
+      finish(null);
+    };
+
+    modal.open();
+  });
+}
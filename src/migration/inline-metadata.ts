@@ -0,0 +1,261 @@
+import type { LegacyKanbanLink, LegacyKanbanSettings } from "./types";
+
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+const DEFAULT_DATE_TRIGGER = "@";
+const DEFAULT_TIME_TRIGGER = "@@";
+const DATE_FORMAT_TOKEN_REGEX = /YYYY|YY|MM|M|DD|D|[^YMD]+|[YMD]/g;
+const TIME_REGEX = /^(\d{1,2}):(\d{2})(?:\s*([ap]m))?$/i;
+const TAG_REGEX = /(^|\s)#([\p{L}\p{N}_/-]+)/gu;
+
+export type LegacyInlineMetadata = {
+  text: string;
+  date: string | null;
+  time: string | null;
+  tags: string[];
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function padNumber(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Convert a date written with the legacy board's moment-style format into
+ * an ISO `YYYY-MM-DD` string. Only numeric year, month and day tokens are
+ * supported; anything else yields null.
+ */
+export function parseLegacyDate(value: string, format: string): string | null {
+  const tokens = format.match(DATE_FORMAT_TOKEN_REGEX) ?? [];
+  const parts: Array<"year" | "shortYear" | "month" | "day"> = [];
+  let pattern = "^";
+
+  for (const token of tokens) {
+    switch (token) {
+      case "YYYY":
+        pattern += "(\\d{4})";
+        parts.push("year");
+        break;
+      case "YY":
+        pattern += "(\\d{2})";
+        parts.push("shortYear");
+        break;
+      case "MM":
+      case "M":
+        pattern += token === "MM" ? "(\\d{2})" : "(\\d{1,2})";
+        parts.push("month");
+        break;
+      case "DD":
+      case "D":
+        pattern += token === "DD" ? "(\\d{2})" : "(\\d{1,2})";
+        parts.push("day");
+        break;
+      case "Y":
+        return null;
+      default:
+        pattern += escapeRegExp(token);
+    }
+  }
+
+  const match = value.trim().match(new RegExp(`${pattern}$`));
+  if (match === null) {
+    return null;
+  }
+
+  let year: number | null = null;
+  let month: number | null = null;
+  let day: number | null = null;
+  for (let index = 0; index < parts.length; index += 1) {
+    const numeric = Number.parseInt(match[index + 1] ?? "", 10);
+    const part = parts[index];
+    if (part === "year") {
+      year = numeric;
+    } else if (part === "shortYear") {
+      year = 2000 + numeric;
+    } else if (part === "month") {
+      month = numeric;
+    } else {
+      day = numeric;
+    }
+  }
+
+  if (year === null || month === null || day === null) {
+    return null;
+  }
+
+  const calendarDate = new Date(Date.UTC(year, month - 1, day));
+  if (
+    calendarDate.getUTCFullYear() !== year ||
+    calendarDate.getUTCMonth() !== month - 1 ||
+    calendarDate.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return `${year}-${padNumber(month)}-${padNumber(day)}`;
+}
+
+export function parseLegacyTime(value: string): string | null {
+  const match = value.trim().match(TIME_REGEX);
+  if (match === null) {
+    return null;
+  }
+
+  let hours = Number.parseInt(match[1], 10);
+  const minutes = Number.parseInt(match[2], 10);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) {
+    hours += 12;
+  } else if (meridiem === "am" && hours === 12) {
+    hours = 0;
+  }
+
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  return `${padNumber(hours)}:${padNumber(minutes)}`;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t]{2,}/g, " ").trim();
+}
+
+/**
+ * Pull `@{date}`, `@@{time}` and `#tag` tokens out of a legacy card line.
+ * Tokens that cannot be parsed are left in the text untouched, and so are
+ * time tokens when the card has no date to attach them to.
+ */
+export function extractLegacyInlineMetadata(
+  text: string,
+  settings: LegacyKanbanSettings,
+): LegacyInlineMetadata {
+  const dateTrigger = escapeRegExp(
+    settings.dateTrigger ?? DEFAULT_DATE_TRIGGER,
+  );
+  const timeTrigger = escapeRegExp(
+    settings.timeTrigger ?? DEFAULT_TIME_TRIGGER,
+  );
+  const dateFormat = settings.dateFormat ?? DEFAULT_DATE_FORMAT;
+
+  let date: string | null = null;
+  let time: string | null = null;
+  const tags: string[] = [];
+
+  // Time tokens go first: the default time trigger starts with the date one.
+  const withoutTimes = text.replace(
+    new RegExp(`${timeTrigger}\\{([^}]+)\\}`, "g"),
+    (token: string, rawTime: string) => {
+      const parsed = parseLegacyTime(rawTime);
+      if (parsed === null) {
+        return token;
+      }
+      time ??= parsed;
+      return "";
+    },
+  );
+
+  let remaining = withoutTimes.replace(
+    new RegExp(
+      `${dateTrigger}(?:\\{([^}]+)\\}|\\[\\[([^\\]|]+)(?:\\|[^\\]]*)?\\]\\])`,
+      "g",
+    ),
+    (token: string, braceDate?: string, linkDate?: string) => {
+      const parsed = parseLegacyDate(braceDate ?? linkDate ?? "", dateFormat);
+      if (parsed === null) {
+        return token;
+      }
+      date ??= parsed;
+      return "";
+    },
+  );
+
+  if (date === null) {
+    time = null;
+    remaining = text;
+  }
+
+  remaining = remaining.replace(
+    TAG_REGEX,
+    (token: string, prefix: string, tag: string) => {
+      if (/^\d+$/.test(tag)) {
+        return token;
+      }
+      if (!tags.includes(tag)) {
+        tags.push(tag);
+      }
+      return prefix;
+    },
+  );
+
+  return {
+    text: collapseWhitespace(remaining),
+    date,
+    time,
+    tags,
+  };
+}
+
+const WIKILINK_REGEX = /(!?)\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+const MARKDOWN_LINK_REGEX =
+  /(!?)\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const URL_SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+
+function decodeLinkPath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Collect the notes and URLs a legacy card points to, in order of
+ * appearance. Embeds are ignored; internal Markdown links are reduced to the
+ * note path without heading or extension.
+ */
+export function extractLegacyLinks(text: string): LegacyKanbanLink[] {
+  const found: Array<{ index: number; link: LegacyKanbanLink }> = [];
+
+  for (const match of text.matchAll(WIKILINK_REGEX)) {
+    if (match[1] === "!") {
+      continue;
+    }
+    found.push({
+      index: match.index ?? 0,
+      link: { target: match[2].trim(), external: false },
+    });
+  }
+
+  for (const match of text.matchAll(MARKDOWN_LINK_REGEX)) {
+    if (match[1] === "!") {
+      continue;
+    }
+    const url = match[2];
+    const external = URL_SCHEME_REGEX.test(url);
+    const target = external
+      ? url
+      : decodeLinkPath(url.replace(/#.*$/, "")).replace(/\.md$/, "");
+    if (target.length > 0) {
+      found.push({ index: match.index ?? 0, link: { target, external } });
+    }
+  }
+
+  const links: LegacyKanbanLink[] = [];
+  for (const { link } of found.sort(
+    (left, right) => left.index - right.index,
+  )) {
+    if (
+      !links.some(
+        (existing) =>
+          existing.target === link.target &&
+          existing.external === link.external,
+      )
+    ) {
+      links.push(link);
+    }
+  }
+  return links;
+}
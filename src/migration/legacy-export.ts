@@ -0,0 +1,69 @@
+import { LEGACY_SETTINGS_MARKER } from "./parser";
+
+export type LegacyExportCard = {
+  text: string;
+  checked: boolean;
+};
+
+export type LegacyExportLane = {
+  name: string;
+  cards: LegacyExportCard[];
+};
+
+function toSingleLine(text: string): string {
+  return text.replace(/\s*[\r\n]+\s*/g, " ").trim();
+}
+
+/**
+ * Write lanes in the Markdown format of the old Kanban plugin, the inverse
+ * of `parseLegacyKanbanMarkdown`.
+ */
+export function serializeLegacyKanbanMarkdown(
+  lanes: LegacyExportLane[],
+): string {
+  const lines = ["---", "", "kanban-plugin: board", "", "---", ""];
+  for (const lane of lanes) {
+    lines.push(`## ${toSingleLine(lane.name)}`, "");
+    for (const card of lane.cards) {
+      lines.push(`- [${card.checked ? "x" : " "}] ${toSingleLine(card.text)}`);
+    }
+    lines.push("", "");
+  }
+
+  const settings = {
+    "kanban-plugin": "board",
+    "list-collapse": lanes.map(() => false),
+  };
+  lines.push(
+    "",
+    "",
+    LEGACY_SETTINGS_MARKER,
+    "```",
+    JSON.stringify(settings),
+    "```",
+    "%%",
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Write lanes as a plain task list with one heading per lane, for pasting
+ * into other notes.
+ */
+export function serializeMarkdownChecklist(lanes: LegacyExportLane[]): string {
+  const sections = lanes
+    .filter((lane) => lane.cards.length > 0)
+    .map((lane) =>
+      [
+        `### ${toSingleLine(lane.name)}`,
+        "",
+        ...lane.cards.map(
+          (card) =>
+            `- [${card.checked ? "x" : " "}] ${toSingleLine(card.text)}`,
+        ),
+      ].join("\n"),
+    );
+
+  return `${sections.join("\n\n")}\n`;
+}
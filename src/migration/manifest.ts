@@ -0,0 +1,141 @@
+import type { MigrationManifest, MigrationManifestUpdate } from "./types";
+
+export const MIGRATION_MANIFEST_SUFFIX = ".migration.json";
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Manifests live next to the generated base file, so both the legacy board
+ * and its `.base` file resolve to the same manifest path.
+ */
+export function getMigrationManifestPath(
+  parentPath: string,
+  basename: string,
+): string {
+  const fileName = `${basename}${MIGRATION_MANIFEST_SUFFIX}`;
+  return parentPath.length === 0 || parentPath === "/"
+    ? fileName
+    : `${parentPath}/${fileName}`;
+}
+
+export function createMigrationManifest(
+  boardPath: string,
+  basePath: string,
+): MigrationManifest {
+  return {
+    version: 1,
+    boardPath,
+    basePath,
+    migratedAt: new Date().toISOString(),
+    createdFiles: [],
+    createdFolders: [],
+    groupProperty: null,
+    updatedFiles: [],
+  };
+}
+
+export function serializeMigrationManifest(
+  manifest: MigrationManifest,
+): string {
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+function parseManifestUpdate(value: unknown): MigrationManifestUpdate | null {
+  if (!isRecord(value) || typeof value.path !== "string") {
+    return null;
+  }
+
+  const previousValues = isRecord(value.previousValues)
+    ? value.previousValues
+    : {};
+  const addedKeys = isStringArray(value.addedKeys) ? value.addedKeys : [];
+  return { path: value.path, previousValues, addedKeys };
+}
+
+export function parseMigrationManifest(
+  content: string,
+): MigrationManifest | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  if (
+    !isRecord(raw) ||
+    raw.version !== 1 ||
+    typeof raw.boardPath !== "string" ||
+    typeof raw.basePath !== "string"
+  ) {
+    return null;
+  }
+
+  const updatedFiles: MigrationManifestUpdate[] = [];
+  if (Array.isArray(raw.updatedFiles)) {
+    for (const entry of raw.updatedFiles) {
+      const update = parseManifestUpdate(entry);
+      if (update !== null) {
+        updatedFiles.push(update);
+      }
+    }
+  }
+
+  return {
+    version: 1,
+    boardPath: raw.boardPath,
+    basePath: raw.basePath,
+    migratedAt: typeof raw.migratedAt === "string" ? raw.migratedAt : "",
+    createdFiles: isStringArray(raw.createdFiles) ? raw.createdFiles : [],
+    createdFolders: isStringArray(raw.createdFolders) ? raw.createdFolders : [],
+    groupProperty:
+      typeof raw.groupProperty === "string" ? raw.groupProperty : null,
+    updatedFiles,
+  };
+}
+
+/**
+ * Keep the earliest recorded frontmatter of a note so reverting a re-synced
+ * board restores the values from before the first migration. Keys a later
+ * re-sync touches for the first time are added to the existing record.
+ */
+export function recordMigrationUpdate(
+  manifest: MigrationManifest,
+  update: MigrationManifestUpdate,
+): void {
+  if (manifest.createdFiles.includes(update.path)) {
+    return;
+  }
+
+  const existing = manifest.updatedFiles.find(
+    (entry) => entry.path === update.path,
+  );
+  if (existing === undefined) {
+    manifest.updatedFiles.push(update);
+    return;
+  }
+
+  const isRecorded = (key: string): boolean =>
+    Object.prototype.hasOwnProperty.call(existing.previousValues, key) ||
+    existing.addedKeys.includes(key);
+  for (const [key, value] of Object.entries(update.previousValues)) {
+    if (!isRecorded(key)) {
+      existing.previousValues[key] = value;
+    }
+  }
+  for (const key of update.addedKeys) {
+    if (!isRecorded(key)) {
+      existing.addedKeys.push(key);
+    }
+  }
+}
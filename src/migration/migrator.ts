@@ -1,17 +1,108 @@
-import { Notice, TFile } from "obsidian";
+import { type App, moment, Notice, TFile, TFolder } from "obsidian";
 
-import { buildMigratedBaseFileContent } from "./base-file";
+import { equalsExpression, inFolderExpression } from "../base-file";
+import {
+  buildMigratedBaseFileContent,
+  type MigratedBaseViewOptions,
+} from "./base-file";
+import {
+  createMigrationManifest,
+  getMigrationManifestPath,
+  parseMigrationManifest,
+  recordMigrationUpdate,
+  serializeMigrationManifest,
+} from "./manifest";
 import { buildUniqueMarkdownPath, sanitizeNoteTitle } from "./naming";
-import { parseLegacyKanbanMarkdown } from "./parser";
+import { LEGACY_SETTINGS_MARKER, parseLegacyKanbanMarkdown } from "./parser";
+import {
+  renderMigrationNote,
+  serializeNoteContent,
+  splitTemplateFrontmatter,
+  type TemplateDateFormats,
+} from "./template";
+import { isTrelloBoardExport, parseTrelloBoard } from "./trello";
 import type BasesKanbanPlugin from "../main";
-import type { MigrationResult } from "./types";
+import type {
+  LegacyKanbanBoard,
+  LegacyKanbanCard,
+  LegacyKanbanSettings,
+  MigrationManifest,
+  MigrationManifestUpdate,
+  MigrationPlan,
+  MigrationPlanCard,
+  MigrationPlanLane,
+  MigrationResult,
+} from "./types";
 
-const LEGACY_MARKER = "%% kanban:settings";
 const DEFAULT_QUERY_PROPERTY = "legacyKanbanSource";
 const DEFAULT_GROUP_PROPERTY = "status";
+const DEFAULT_DATE_PROPERTY = "due";
+const DEFAULT_ARCHIVE_PROPERTY = "archived";
+const TAGS_PROPERTY = "tags";
+const ARCHIVE_FOLDER_NAME = "Archive";
+const MIN_COLUMN_WIDTH = 200;
+const MAX_COLUMN_WIDTH = 500;
 
 type UnknownRecord = Record<string, unknown>;
 
+type MigrationProperties = {
+  groupProperty: string;
+  /**
+   * Lane property of this board when it shares notes with another board.
+   * Shared notes keep their `groupProperty` lane for the other board.
+   */
+  boardGroupProperty: string | null;
+  queryProperty: string;
+  checkedProperty: string | null;
+  dateProperty: string;
+  relatedProperty: string | null;
+  archiveProperty: string | null;
+};
+
+type CardPlacement = {
+  laneName: string;
+  boardPath: string;
+  archived: boolean;
+};
+
+type MigrationContext = {
+  plugin: BasesKanbanPlugin;
+  boardFile: TFile;
+  properties: MigrationProperties;
+  reservedPaths: Set<string>;
+  migratedNotesByTitle: Map<string, TFile[]>;
+  manifest: MigrationManifest;
+  /** The configured note template, if any. */
+  template: MigrationTemplate | null;
+};
+
+type MigrationTemplate = {
+  content: string;
+  dates: TemplateDateFormats;
+};
+
+type CoreTemplatesOptions = {
+  folder?: unknown;
+  dateFormat?: unknown;
+  timeFormat?: unknown;
+};
+
+type AppWithInternalPlugins = App & {
+  internalPlugins?: {
+    getPluginById?: (id: string) => {
+      enabled?: boolean;
+      instance?: { options?: CoreTemplatesOptions };
+    } | null;
+  };
+};
+
+type CardMigrationOutcome = {
+  status: "created" | "updated" | "skipped";
+  path: string | null;
+};
+
+const SKIPPED_OUTCOME: CardMigrationOutcome = { status: "skipped", path: null };
+
 function isRecord(value: unknown): value is UnknownRecord {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
@@ -38,6 +129,7 @@ function hasKanbanFrontmatter(file: TFile, plugin: BasesKanbanPlugin): boolean {
 async function ensureFolderExists(
   plugin: BasesKanbanPlugin,
   folderPath: string,
+  createdFolders: string[] = [],
 ): Promise<void> {
   if (folderPath.length === 0) {
     return;
@@ -51,25 +143,74 @@ async function ensureFolderExists(
       continue;
     }
     await plugin.app.vault.createFolder(current);
+    createdFolders.push(current);
   }
 }
 
-function createNewNoteContent(
-  groupProperty: string,
-  queryProperty: string,
-  cardText: string,
-  laneName: string,
-  boardPath: string,
-): string {
-  return [
-    "---",
-    `${groupProperty}: ${JSON.stringify(laneName)}`,
-    `${queryProperty}: ${JSON.stringify(boardPath)}`,
-    "---",
-    "",
-    cardText,
-    "",
-  ].join("\n");
+function getMigrationProperties(
+  plugin: BasesKanbanPlugin,
+): MigrationProperties {
+  const groupProperty = plugin.settings.migrationGroupProperty.trim();
+  const queryProperty = plugin.settings.migrationQueryProperty.trim();
+  const checkedProperty = plugin.settings.migrationCheckedProperty.trim();
+  const dateProperty = plugin.settings.migrationDateProperty.trim();
+  const relatedProperty = plugin.settings.migrationRelatedProperty.trim();
+  const archiveProperty = plugin.settings.migrationArchiveProperty.trim();
+  let resolvedArchiveProperty: string | null = null;
+  if (plugin.settings.migrationArchiveMode === "property") {
+    resolvedArchiveProperty =
+      archiveProperty.length === 0 ? DEFAULT_ARCHIVE_PROPERTY : archiveProperty;
+  }
+
+  return {
+    groupProperty:
+      groupProperty.length === 0 ? DEFAULT_GROUP_PROPERTY : groupProperty,
+    boardGroupProperty: null,
+    queryProperty:
+      queryProperty.length === 0 ? DEFAULT_QUERY_PROPERTY : queryProperty,
+    checkedProperty: checkedProperty.length === 0 ? null : checkedProperty,
+    dateProperty:
+      dateProperty.length === 0 ? DEFAULT_DATE_PROPERTY : dateProperty,
+    relatedProperty: relatedProperty.length === 0 ? null : relatedProperty,
+    archiveProperty: resolvedArchiveProperty,
+  };
+}
+
+function buildMigrationFrontmatter(
+  properties: MigrationProperties,
+  card: LegacyKanbanCard,
+  placement: CardPlacement,
+  relatedLinks: string[],
+  sharedWithOtherBoard: boolean,
+): UnknownRecord {
+  const frontmatter: UnknownRecord = {
+    ...card.properties,
+    [properties.queryProperty]: [placement.boardPath],
+  };
+  if (!sharedWithOtherBoard) {
+    frontmatter[properties.groupProperty] = placement.laneName;
+  }
+  if (properties.boardGroupProperty !== null) {
+    frontmatter[properties.boardGroupProperty] = placement.laneName;
+  }
+  if (properties.checkedProperty !== null) {
+    frontmatter[properties.checkedProperty] = card.checked;
+  }
+  if (card.date !== null) {
+    frontmatter[properties.dateProperty] =
+      card.time === null ? card.date : `${card.date}T${card.time}`;
+  }
+  if (card.tags.length > 0) {
+    frontmatter[TAGS_PROPERTY] = card.tags;
+  }
+  if (properties.relatedProperty !== null && relatedLinks.length > 0) {
+    frontmatter[properties.relatedProperty] = relatedLinks;
+  }
+  if (placement.archived && properties.archiveProperty !== null) {
+    frontmatter[properties.archiveProperty] = true;
+  }
+
+  return frontmatter;
 }
 
 function getBoardFolder(boardFile: TFile): string {
@@ -85,51 +226,110 @@ function getBasePath(boardFile: TFile): string {
   return parentPath.length === 0 ? fileName : `${parentPath}/${fileName}`;
 }
 
-function assertMigrationDoesNotExist(
+function getManifestPath(file: TFile): string {
+  return getMigrationManifestPath(file.parent?.path ?? "", file.basename);
+}
+
+/**
+ * Board paths stored in a note's query property. Notes migrated before the
+ * property became a list hold a single path as text.
+ */
+function getNoteBoardPaths(
+  plugin: BasesKanbanPlugin,
+  file: TFile,
+  queryProperty: string,
+): string[] {
+  const cache = plugin.app.metadataCache.getFileCache(file);
+  const value = getRecordValue(cache?.frontmatter, queryProperty);
+  if (typeof value === "string") {
+    return [value];
+  }
+
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+function getMigratedNotes(
   plugin: BasesKanbanPlugin,
   boardFile: TFile,
-): void {
+  queryProperty: string,
+): TFile[] {
+  return plugin.app.vault
+    .getMarkdownFiles()
+    .filter((markdownFile) =>
+      getNoteBoardPaths(plugin, markdownFile, queryProperty).includes(
+        boardFile.path,
+      ),
+    );
+}
+
+/**
+ * Whether the board was migrated before, judged by the base file, the
+ * manifest and notes that already point to the board. The card folder is not
+ * evidence: a folder named after the board often holds unrelated files.
+ */
+function hasExistingMigration(
+  plugin: BasesKanbanPlugin,
+  boardFile: TFile,
+): boolean {
   const basePath = getBasePath(boardFile);
-  const legacyBugBasePath = `${basePath}.md`;
-  const boardFolder = getBoardFolder(boardFile);
-  const existingBase = plugin.app.vault.getAbstractFileByPath(basePath);
-  const existingLegacyBugBase =
-    plugin.app.vault.getAbstractFileByPath(legacyBugBasePath);
-  const existingBoardFolder =
-    plugin.app.vault.getAbstractFileByPath(boardFolder);
-  const queryProperty =
-    plugin.settings.migrationQueryProperty.trim().length === 0
-      ? DEFAULT_QUERY_PROPERTY
-      : plugin.settings.migrationQueryProperty.trim();
-
-  let hasPreviouslyMigratedNotes = false;
-  const markdownFiles = plugin.app.vault.getMarkdownFiles();
-  for (const markdownFile of markdownFiles) {
-    const cache = plugin.app.metadataCache.getFileCache(markdownFile);
-    const frontmatter = cache?.frontmatter;
-    if (frontmatter === undefined) {
-      continue;
-    }
+  const candidatePaths = [
+    basePath,
+    `${basePath}.md`,
+    getManifestPath(boardFile),
+  ];
+  if (
+    candidatePaths.some(
+      (path) => plugin.app.vault.getAbstractFileByPath(path) !== null,
+    )
+  ) {
+    return true;
+  }
+
+  const { queryProperty } = getMigrationProperties(plugin);
+  return getMigratedNotes(plugin, boardFile, queryProperty).length > 0;
+}
+
+/**
+ * Notes created by an earlier migration are named after their card title,
+ * with a ` (n)` suffix when titles collided.
+ */
+function getNoteMatchKey(title: string): string {
+  return sanitizeNoteTitle(title)
+    .replace(/ \(\d+\)$/, "")
+    .toLowerCase();
+}
 
-    const value = getRecordValue(frontmatter, queryProperty);
-    if (typeof value === "string" && value === boardFile.path) {
-      hasPreviouslyMigratedNotes = true;
-      break;
+function indexMigratedNotes(notes: TFile[]): Map<string, TFile[]> {
+  const notesByTitle = new Map<string, TFile[]>();
+  for (const note of notes) {
+    const key = getNoteMatchKey(note.basename);
+    const matches = notesByTitle.get(key);
+    if (matches === undefined) {
+      notesByTitle.set(key, [note]);
+    } else {
+      matches.push(note);
     }
   }
+  return notesByTitle;
+}
 
-  if (
-    existingBase !== null ||
-    existingLegacyBugBase !== null ||
-    existingBoardFolder !== null ||
-    hasPreviouslyMigratedNotes
-  ) {
-    throw new Error(
-      [
-        "Migration already exists for this board.",
-        `Delete previous migration artifacts first: ${basePath}, ${legacyBugBasePath} (if present), and ${boardFolder}/`,
-      ].join(" "),
-    );
+function takeMigratedNote(
+  notesByTitle: Map<string, TFile[]>,
+  title: string,
+): TFile | null {
+  return notesByTitle.get(getNoteMatchKey(title))?.shift() ?? null;
+}
+
+function forgetMigratedNote(
+  notesByTitle: Map<string, TFile[]>,
+  note: TFile,
+): void {
+  const matches = notesByTitle.get(getNoteMatchKey(note.basename));
+  const index = matches?.indexOf(note) ?? -1;
+  if (matches !== undefined && index !== -1) {
+    matches.splice(index, 1);
   }
 }
 
@@ -158,7 +358,7 @@ async function createNoteWithUniquePath(
   title: string,
   content: string,
   reservedPaths: Set<string>,
-): Promise<void> {
+): Promise<string> {
   let attempts = 0;
   while (attempts < 10_000) {
     const path = buildUniqueMarkdownPath(
@@ -176,7 +376,7 @@ async function createNoteWithUniquePath(
     try {
       await plugin.app.vault.create(path, content);
       reservedPaths.add(path);
-      return;
+      return path;
     } catch (error: unknown) {
       if (!isFileAlreadyExistsError(error)) {
         throw error;
@@ -193,19 +393,344 @@ async function createNoteWithUniquePath(
 async function upsertMigrationProperties(
   plugin: BasesKanbanPlugin,
   file: TFile,
-  groupProperty: string,
-  queryProperty: string,
-  laneName: string,
-  boardPath: string,
-): Promise<void> {
+  migrationFrontmatter: UnknownRecord,
+): Promise<MigrationManifestUpdate> {
+  const update: MigrationManifestUpdate = {
+    path: file.path,
+    previousValues: {},
+    addedKeys: [],
+  };
+
   await plugin.app.fileManager.processFrontMatter(file, (frontmatter: unknown) => {
     if (!isRecord(frontmatter)) {
       return;
     }
 
-    frontmatter[groupProperty] = laneName;
-    frontmatter[queryProperty] = boardPath;
+    for (const [key, value] of Object.entries(migrationFrontmatter)) {
+      const existingValue = frontmatter[key];
+      if (key in frontmatter) {
+        update.previousValues[key] = existingValue;
+      } else {
+        update.addedKeys.push(key);
+      }
+      if (
+        (Array.isArray(existingValue) || typeof existingValue === "string") &&
+        Array.isArray(value)
+      ) {
+        const merged: unknown[] = Array.isArray(existingValue)
+          ? [...(existingValue as unknown[])]
+          : [existingValue];
+        for (const item of value as unknown[]) {
+          if (!merged.includes(item)) {
+            merged.push(item);
+          }
+        }
+        frontmatter[key] = merged;
+        continue;
+      }
+
+      frontmatter[key] = value;
+    }
   });
+
+  return update;
+}
+
+function resolveLinkedNote(
+  plugin: BasesKanbanPlugin,
+  boardFile: TFile,
+  target: string,
+): TFile | null {
+  return plugin.app.metadataCache.getFirstLinkpathDest(target, boardFile.path);
+}
+
+/**
+ * Related links point at the resolved note when it exists, so they keep
+ * working from the migrated note's folder.
+ */
+function formatRelatedLinks(
+  plugin: BasesKanbanPlugin,
+  boardFile: TFile,
+  card: LegacyKanbanCard,
+  notePath: string,
+): string[] {
+  const relatedLinks: string[] = [];
+  for (const link of card.links) {
+    let formatted = link.target;
+    if (!link.external) {
+      const note = resolveLinkedNote(plugin, boardFile, link.target);
+      if (note?.path === notePath) {
+        continue;
+      }
+      const linkText =
+        note === null
+          ? link.target
+          : plugin.app.metadataCache.fileToLinktext(note, notePath);
+      formatted = `[[${linkText}]]`;
+    }
+    if (!relatedLinks.includes(formatted)) {
+      relatedLinks.push(formatted);
+    }
+  }
+  return relatedLinks;
+}
+
+function planCard(
+  context: MigrationContext,
+  card: LegacyKanbanCard,
+  placement: CardPlacement,
+  targetFolder: string,
+): MigrationPlanCard {
+  const { plugin, boardFile, properties, reservedPaths, migratedNotesByTitle } =
+    context;
+  const linkedNotePaths: string[] = [];
+  for (const link of card.links) {
+    const note = link.external
+      ? null
+      : resolveLinkedNote(plugin, boardFile, link.target);
+    if (note !== null && !linkedNotePaths.includes(note.path)) {
+      linkedNotePaths.push(note.path);
+    }
+  }
+  const skip = (targetPath: string | null): MigrationPlanCard => ({
+    card,
+    action: "skip",
+    targetFolder,
+    targetPath,
+    linkedNotePaths,
+    selected: false,
+  });
+
+  if (card.text.length === 0) {
+    return skip(null);
+  }
+
+  if (card.linkTarget !== null) {
+    const existing = plugin.app.metadataCache.getFirstLinkpathDest(
+      card.linkTarget,
+      boardFile.path,
+    );
+
+    if (existing !== null) {
+      forgetMigratedNote(migratedNotesByTitle, existing);
+      // Existing notes stay where they are, so a folder-based archive could
+      // not hide them from the board. Leave them untouched instead.
+      if (placement.archived && properties.archiveProperty === null) {
+        return skip(existing.path);
+      }
+
+      return {
+        card,
+        action: "update",
+        targetFolder,
+        targetPath: existing.path,
+        linkedNotePaths,
+        selected: true,
+      };
+    }
+  }
+
+  const title =
+    card.linkTarget === null ? card.title : getLinkTargetTitle(card.linkTarget);
+  const migratedNote = takeMigratedNote(migratedNotesByTitle, title);
+  if (migratedNote !== null) {
+    return {
+      card,
+      action: "update",
+      targetFolder,
+      targetPath: migratedNote.path,
+      linkedNotePaths,
+      selected: true,
+    };
+  }
+
+  const targetPath = buildUniqueMarkdownPath(
+    targetFolder,
+    title,
+    (candidatePath) =>
+      reservedPaths.has(candidatePath) ||
+      plugin.app.vault.getAbstractFileByPath(candidatePath) !== null,
+  );
+  reservedPaths.add(targetPath);
+
+  return {
+    card,
+    action: "create",
+    targetFolder,
+    targetPath,
+    linkedNotePaths,
+    selected: true,
+  };
+}
+
+function getPathTitle(path: string): string {
+  const fileName = path.slice(path.lastIndexOf("/") + 1);
+  return fileName.endsWith(".md") ? fileName.slice(0, -3) : fileName;
+}
+
+async function migrateCard(
+  context: MigrationContext,
+  plannedCard: MigrationPlanCard,
+  placement: CardPlacement,
+): Promise<CardMigrationOutcome> {
+  const { plugin, boardFile, properties, manifest } = context;
+  const { card, action, targetFolder, targetPath } = plannedCard;
+  if (!plannedCard.selected || action === "skip" || targetPath === null) {
+    return SKIPPED_OUTCOME;
+  }
+
+  const existing =
+    action === "update"
+      ? plugin.app.vault.getAbstractFileByPath(targetPath)
+      : null;
+  const frontmatter = buildMigrationFrontmatter(
+    properties,
+    card,
+    placement,
+    formatRelatedLinks(plugin, boardFile, card, targetPath),
+    existing instanceof TFile &&
+      isOnOtherBoard(plugin, existing, boardFile, properties),
+  );
+
+  if (action === "update") {
+    if (!(existing instanceof TFile)) {
+      return SKIPPED_OUTCOME;
+    }
+
+    recordMigrationUpdate(
+      manifest,
+      await upsertMigrationProperties(plugin, existing, frontmatter),
+    );
+    return { status: "updated", path: existing.path };
+  }
+
+  const content =
+    context.template === null
+      ? serializeNoteContent(frontmatter, card.text)
+      : renderMigrationNote(
+          context.template.content,
+          {
+            title: getPathTitle(targetPath),
+            lane: placement.laneName,
+            board: placement.boardPath,
+            body: card.text,
+            cardDate: card.date,
+            cardTime: card.time,
+          },
+          context.template.dates,
+          frontmatter,
+        );
+  const createdPath = await createPlannedNote(
+    context,
+    targetFolder,
+    targetPath,
+    content,
+  );
+  manifest.createdFiles.push(createdPath);
+  return { status: "created", path: createdPath };
+}
+
+async function createPlannedNote(
+  context: MigrationContext,
+  targetFolder: string,
+  targetPath: string,
+  content: string,
+): Promise<string> {
+  const { plugin, reservedPaths } = context;
+  if (
+    !reservedPaths.has(targetPath) &&
+    plugin.app.vault.getAbstractFileByPath(targetPath) === null
+  ) {
+    try {
+      await plugin.app.vault.create(targetPath, content);
+      reservedPaths.add(targetPath);
+      return targetPath;
+    } catch (error: unknown) {
+      if (!isFileAlreadyExistsError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  // The vault changed since the preview; fall back to the next free name.
+  return createNoteWithUniquePath(
+    plugin,
+    targetFolder,
+    getPathTitle(targetPath),
+    content,
+    reservedPaths,
+  );
+}
+
+function buildBaseViewOptions(
+  legacySettings: LegacyKanbanSettings,
+  properties: MigrationProperties,
+  archiveFolder: string | null,
+  cardPathsByLane: Map<string, string[]>,
+): MigratedBaseViewOptions {
+  const { checkedProperty, archiveProperty } = properties;
+  const extraProperties = legacySettings.metadataKeys.map(
+    (metadataKey) => metadataKey.metadataKey,
+  );
+  if (legacySettings.showCheckboxes === true && checkedProperty !== null) {
+    extraProperties.unshift(checkedProperty);
+  }
+
+  const columnWidth =
+    legacySettings.laneWidth === null
+      ? null
+      : Math.max(
+          MIN_COLUMN_WIDTH,
+          Math.min(MAX_COLUMN_WIDTH, Math.round(legacySettings.laneWidth)),
+        );
+
+  const excludeExpressions: string[] = [];
+  if (archiveProperty !== null) {
+    excludeExpressions.push(equalsExpression(archiveProperty, true));
+  }
+  if (archiveFolder !== null) {
+    excludeExpressions.push(inFolderExpression(archiveFolder));
+  }
+
+  return {
+    columnWidth,
+    extraProperties,
+    excludeExpressions,
+    columnOrder: [...cardPathsByLane.keys()],
+    localCardOrder: cardPathsByLane,
+  };
+}
+
+/**
+ * Collect every legacy board inside `folder`, including nested folders.
+ */
+export async function findLegacyKanbanFiles(
+  plugin: BasesKanbanPlugin,
+  folder: TFolder,
+): Promise<TFile[]> {
+  const prefix = folder.isRoot() ? "" : `${folder.path}/`;
+  const boards: TFile[] = [];
+  for (const file of plugin.app.vault.getMarkdownFiles()) {
+    if (!file.path.startsWith(prefix)) {
+      continue;
+    }
+    if (await isLegacyKanbanFile(plugin, file)) {
+      boards.push(file);
+    }
+  }
+
+  return boards.sort((left, right) => left.path.localeCompare(right.path));
+}
+
+export async function isTrelloExportFile(
+  plugin: BasesKanbanPlugin,
+  file: TFile,
+): Promise<boolean> {
+  if (file.extension !== "json") {
+    return false;
+  }
+
+  return isTrelloBoardExport(await plugin.app.vault.cachedRead(file));
 }
 
 export async function isLegacyKanbanFile(
@@ -221,115 +746,495 @@ export async function isLegacyKanbanFile(
   }
 
   const markdown = await plugin.app.vault.cachedRead(file);
-  return markdown.includes(LEGACY_MARKER);
+  return markdown.includes(LEGACY_SETTINGS_MARKER);
 }
 
-export async function migrateLegacyKanbanFile(
+async function readBoardFile(
   plugin: BasesKanbanPlugin,
   boardFile: TFile,
-): Promise<MigrationResult> {
-  assertMigrationDoesNotExist(plugin, boardFile);
-
-  const markdown = await plugin.app.vault.read(boardFile);
-  const parsedBoard = parseLegacyKanbanMarkdown(markdown);
-  const groupProperty =
-    plugin.settings.migrationGroupProperty.trim().length === 0
-      ? DEFAULT_GROUP_PROPERTY
-      : plugin.settings.migrationGroupProperty.trim();
-  const queryProperty =
-    plugin.settings.migrationQueryProperty.trim().length === 0
-      ? DEFAULT_QUERY_PROPERTY
-      : plugin.settings.migrationQueryProperty.trim();
-
-  let createdCount = 0;
-  let updatedCount = 0;
-  let skippedCount = 0;
+): Promise<LegacyKanbanBoard> {
+  const content = await plugin.app.vault.read(boardFile);
+  return boardFile.extension === "json"
+    ? parseTrelloBoard(content)
+    : parseLegacyKanbanMarkdown(content);
+}
 
+/**
+ * Work out what a migration of `boardFile` would do without touching the
+ * vault. The returned plan can be edited (cards deselected) and passed to
+ * `migrateLegacyKanbanFile`. Boards that were migrated before are planned as
+ * a re-sync: previously migrated notes are matched by link or title and
+ * updated, and only new cards create notes. Pass `board` for sources that
+ * need extra input to parse, such as the column mapping of a CSV file.
+ */
+export async function planLegacyKanbanMigration(
+  plugin: BasesKanbanPlugin,
+  boardFile: TFile,
+  board?: LegacyKanbanBoard,
+): Promise<MigrationPlan> {
+  const resync = hasExistingMigration(plugin, boardFile);
+  const parsedBoard = board ?? (await readBoardFile(plugin, boardFile));
   if (parsedBoard.lanes.length === 0) {
-    throw new Error("No lanes were detected in this legacy Kanban file.");
+    throw new Error("No lanes were detected in this board.");
   }
 
+  const properties = getMigrationProperties(plugin);
+  const archiveMode = plugin.settings.migrationArchiveMode;
   const boardFolder = getBoardFolder(boardFile);
-  await ensureFolderExists(plugin, boardFolder);
-  const reservedPaths = new Set<string>();
+  const context: MigrationContext = {
+    plugin,
+    boardFile,
+    properties,
+    reservedPaths: new Set<string>(),
+    migratedNotesByTitle: indexMigratedNotes(
+      resync
+        ? getMigratedNotes(plugin, boardFile, properties.queryProperty)
+        : [],
+    ),
+    manifest: createMigrationManifest(boardFile.path, getBasePath(boardFile)),
+    template: null,
+  };
 
-  for (const lane of parsedBoard.lanes) {
-    for (const card of lane.cards) {
-      if (card.text.length === 0) {
-        skippedCount += 1;
-        continue;
-      }
+  const lanes: MigrationPlanLane[] = parsedBoard.lanes.map((lane) => ({
+    name: lane.name,
+    archived: false,
+    cards: lane.cards.map((card) =>
+      planCard(
+        context,
+        card,
+        { laneName: lane.name, boardPath: boardFile.path, archived: false },
+        boardFolder,
+      ),
+    ),
+  }));
 
-      if (card.linkTarget !== null) {
-        const existing = plugin.app.metadataCache.getFirstLinkpathDest(
-          card.linkTarget,
-          boardFile.path,
-        );
+  let archiveFolder: string | null = null;
+  const archive = parsedBoard.archive;
+  if (archive !== null && archive.cards.length > 0) {
+    if (archiveMode === "folder") {
+      archiveFolder = `${boardFolder}/${ARCHIVE_FOLDER_NAME}`;
+    }
 
-        if (existing !== null) {
-          await upsertMigrationProperties(
-            plugin,
-            existing,
-            groupProperty,
-            queryProperty,
-            lane.name,
-            boardFile.path,
-          );
-          updatedCount += 1;
-          continue;
+    lanes.push({
+      name: archive.name,
+      archived: true,
+      cards: archive.cards.map((card): MigrationPlanCard => {
+        if (archiveMode === "skip") {
+          return {
+            card,
+            action: "skip",
+            targetFolder: boardFolder,
+            targetPath: null,
+            linkedNotePaths: [],
+            selected: false,
+          };
         }
 
-        const fallbackTitle = getLinkTargetTitle(card.linkTarget);
-        await createNoteWithUniquePath(
-          plugin,
-          boardFolder,
-          fallbackTitle,
-          createNewNoteContent(
-            groupProperty,
-            queryProperty,
-            card.text,
-            lane.name,
-            boardFile.path,
-          ),
-          reservedPaths,
+        return planCard(
+          context,
+          card,
+          { laneName: archive.name, boardPath: boardFile.path, archived: true },
+          archiveFolder ?? boardFolder,
         );
-        createdCount += 1;
-        continue;
+      }),
+    });
+  }
+
+  return {
+    boardPath: boardFile.path,
+    basePath: getBasePath(boardFile),
+    resync,
+    lanes,
+    archiveFolder,
+    settings: parsedBoard.settings,
+  };
+}
+
+function isOnOtherBoard(
+  plugin: BasesKanbanPlugin,
+  note: TFile,
+  boardFile: TFile,
+  properties: MigrationProperties,
+): boolean {
+  return getNoteBoardPaths(plugin, note, properties.queryProperty).some(
+    (boardPath) => boardPath !== boardFile.path,
+  );
+}
+
+/**
+ * Per-board group property, named after the board's path so boards with the
+ * same name in different folders do not share lanes. Dots would split the
+ * `note.` property id, so they are replaced.
+ */
+function getBoardGroupPropertyName(
+  boardFile: TFile,
+  groupProperty: string,
+): string {
+  return `${getBoardFolder(boardFile).replace(/\./g, "-")} ${groupProperty}`;
+}
+
+/**
+ * Notes that already sit on another migrated board keep their lane there, so
+ * a board sharing notes groups by a property of its own. Its other notes
+ * still get the regular group property as well. The choice is kept in the
+ * manifest and reused by re-syncs.
+ */
+function resolveBoardGroupProperty(
+  plugin: BasesKanbanPlugin,
+  boardFile: TFile,
+  plan: MigrationPlan,
+  properties: MigrationProperties,
+  manifest: MigrationManifest,
+): string {
+  if (manifest.groupProperty !== null) {
+    return manifest.groupProperty;
+  }
+  if (plan.resync) {
+    return properties.groupProperty;
+  }
+
+  const sharesNotes = plan.lanes.some((lane) =>
+    lane.cards.some((plannedCard) => {
+      if (
+        !plannedCard.selected ||
+        plannedCard.action !== "update" ||
+        plannedCard.targetPath === null
+      ) {
+        return false;
       }
 
-      await createNoteWithUniquePath(
-        plugin,
-        boardFolder,
-        card.title,
-        createNewNoteContent(
-          groupProperty,
-          queryProperty,
-          card.text,
-          lane.name,
-          boardFile.path,
-        ),
-        reservedPaths,
+      const note = plugin.app.vault.getAbstractFileByPath(
+        plannedCard.targetPath,
       );
-      createdCount += 1;
-    }
+      return (
+        note instanceof TFile &&
+        isOnOtherBoard(plugin, note, boardFile, properties)
+      );
+    }),
+  );
+  return sharesNotes
+    ? getBoardGroupPropertyName(boardFile, properties.groupProperty)
+    : properties.groupProperty;
+}
+
+function getCoreTemplatesOptions(app: App): CoreTemplatesOptions {
+  const templatesPlugin = (
+    app as AppWithInternalPlugins
+  ).internalPlugins?.getPluginById?.("templates");
+  return templatesPlugin?.enabled === true
+    ? (templatesPlugin.instance?.options ?? {})
+    : {};
+}
+
+function getStringOption(value: unknown, fallback: string): string {
+  return typeof value === "string" && value.trim().length > 0
+    ? value.trim()
+    : fallback;
+}
+
+/**
+ * Read the configured note template. The setting takes a vault path or a
+ * note name, which is looked up in the core Templates folder first. Dates
+ * use the Templates plugin's formats.
+ */
+async function loadMigrationTemplate(
+  plugin: BasesKanbanPlugin,
+  boardFile: TFile,
+): Promise<MigrationTemplate | null> {
+  const templatePath = plugin.settings.migrationTemplatePath.trim();
+  if (templatePath.length === 0) {
+    return null;
   }
 
-  const basePath = getBasePath(boardFile);
-  const baseContent = buildMigratedBaseFileContent(
-    queryProperty,
-    boardFile.path,
-    groupProperty,
+  const { app } = plugin;
+  const templatesOptions = getCoreTemplatesOptions(app);
+  const fileName = templatePath.endsWith(".md")
+    ? templatePath
+    : `${templatePath}.md`;
+  const templatesFolder = getStringOption(templatesOptions.folder, "").replace(
+    /\/+$/,
+    "",
   );
-  await plugin.app.vault.create(basePath, baseContent);
+  const candidates = [
+    ...(templatesFolder.length > 0 ? [`${templatesFolder}/${fileName}`] : []),
+    fileName,
+  ];
+  const exactFile =
+    candidates
+      .map((path) => app.vault.getAbstractFileByPath(path))
+      .find((file): file is TFile => file instanceof TFile) ?? null;
+  const templateFile =
+    exactFile ??
+    app.metadataCache.getFirstLinkpathDest(templatePath, boardFile.path);
+  if (templateFile === null) {
+    throw new Error(`Migration template not found: ${templatePath}`);
+  }
 
-  new Notice(
-    `Legacy Kanban migrated: ${createdCount} created, ${updatedCount} updated, ${skippedCount} skipped.`,
+  const content = await app.vault.cachedRead(templateFile);
+  // Fail before anything is created when the template's YAML is broken.
+  splitTemplateFrontmatter(content);
+  return {
+    content,
+    dates: {
+      dateFormat: getStringOption(templatesOptions.dateFormat, "YYYY-MM-DD"),
+      timeFormat: getStringOption(templatesOptions.timeFormat, "HH:mm"),
+      formatNow: (format) => moment().format(format),
+    },
+  };
+}
+
+async function writeMigrationManifest(
+  plugin: BasesKanbanPlugin,
+  boardFile: TFile,
+  manifest: MigrationManifest,
+): Promise<void> {
+  const manifestPath = getManifestPath(boardFile);
+  const content = serializeMigrationManifest(manifest);
+  const existing = plugin.app.vault.getAbstractFileByPath(manifestPath);
+  if (existing instanceof TFile) {
+    await plugin.app.vault.modify(existing, content);
+    return;
+  }
+
+  await plugin.app.vault.create(manifestPath, content);
+}
+
+async function loadOrCreateMigrationManifest(
+  plugin: BasesKanbanPlugin,
+  boardFile: TFile,
+  plan: MigrationPlan,
+): Promise<MigrationManifest> {
+  const manifestFile = getMigrationManifestFile(plugin, boardFile);
+  if (plan.resync && manifestFile !== null) {
+    const manifest = parseMigrationManifest(
+      await plugin.app.vault.read(manifestFile),
+    );
+    if (manifest !== null) {
+      return manifest;
+    }
+  }
+
+  return createMigrationManifest(boardFile.path, plan.basePath);
+}
+
+export async function migrateLegacyKanbanFile(
+  plugin: BasesKanbanPlugin,
+  boardFile: TFile,
+  plan?: MigrationPlan,
+): Promise<MigrationResult> {
+  const migrationPlan =
+    plan ?? (await planLegacyKanbanMigration(plugin, boardFile));
+  const manifest = await loadOrCreateMigrationManifest(
+    plugin,
+    boardFile,
+    migrationPlan,
   );
+  const defaultProperties = getMigrationProperties(plugin);
+  const viewGroupProperty = resolveBoardGroupProperty(
+    plugin,
+    boardFile,
+    migrationPlan,
+    defaultProperties,
+    manifest,
+  );
+  const properties: MigrationProperties = {
+    ...defaultProperties,
+    boardGroupProperty:
+      viewGroupProperty === defaultProperties.groupProperty
+        ? null
+        : viewGroupProperty,
+  };
+  manifest.groupProperty = viewGroupProperty;
+
+  let createdCount = 0;
+  let updatedCount = 0;
+  let skippedCount = 0;
+  let archivedCount = 0;
+
+  const context: MigrationContext = {
+    plugin,
+    boardFile,
+    properties,
+    reservedPaths: new Set<string>(),
+    migratedNotesByTitle: new Map<string, TFile[]>(),
+    manifest,
+    template: await loadMigrationTemplate(plugin, boardFile),
+  };
+
+  // The manifest is written even when the migration fails half-way, so a
+  // partial migration can still be reverted.
+  try {
+    await ensureFolderExists(
+      plugin,
+      getBoardFolder(boardFile),
+      manifest.createdFolders,
+    );
+    if (migrationPlan.archiveFolder !== null) {
+      await ensureFolderExists(
+        plugin,
+        migrationPlan.archiveFolder,
+        manifest.createdFolders,
+      );
+    }
+
+    // Lane and card order of the Markdown board, keyed like the view's
+    // column keys, so the migrated board opens in the same arrangement.
+    const cardPathsByLane = new Map<string, string[]>();
+    for (const lane of migrationPlan.lanes) {
+      const lanePaths: string[] = [];
+      if (!lane.archived) {
+        cardPathsByLane.set(lane.name, lanePaths);
+      }
+
+      for (const plannedCard of lane.cards) {
+        const outcome = await migrateCard(context, plannedCard, {
+          laneName: lane.name,
+          boardPath: boardFile.path,
+          archived: lane.archived,
+        });
+        if (outcome.status === "created") {
+          createdCount += 1;
+        } else if (outcome.status === "updated") {
+          updatedCount += 1;
+        } else {
+          skippedCount += 1;
+        }
+        if (outcome.path !== null && !lanePaths.includes(outcome.path)) {
+          lanePaths.push(outcome.path);
+        }
+        if (lane.archived && outcome.status !== "skipped") {
+          archivedCount += 1;
+        }
+      }
+    }
+
+    const baseContent = buildMigratedBaseFileContent(
+      properties.queryProperty,
+      boardFile.path,
+      viewGroupProperty,
+      buildBaseViewOptions(
+        migrationPlan.settings,
+        properties,
+        migrationPlan.archiveFolder,
+        cardPathsByLane,
+      ),
+    );
+    // A re-sync keeps the existing base file and its view configuration.
+    if (
+      plugin.app.vault.getAbstractFileByPath(migrationPlan.basePath) === null
+    ) {
+      await plugin.app.vault.create(migrationPlan.basePath, baseContent);
+      manifest.createdFiles.push(migrationPlan.basePath);
+    }
+  } catch (error: unknown) {
+    // A failed manifest write is reported on its own so it does not hide the
+    // error that stopped the migration.
+    try {
+      await writeMigrationManifest(plugin, boardFile, manifest);
+    } catch (manifestError: unknown) {
+      const message =
+        manifestError instanceof Error
+          ? manifestError.message
+          : String(manifestError);
+      new Notice(`Saving the migration manifest failed: ${message}`);
+    }
+    throw error;
+  }
+  await writeMigrationManifest(plugin, boardFile, manifest);
 
   return {
     createdCount,
     updatedCount,
     skippedCount,
-    baseFilePath: basePath,
+    archivedCount,
+    baseFilePath: migrationPlan.basePath,
+    resynced: migrationPlan.resync,
   };
 }
+
+/**
+ * Find the manifest recorded for a migrated board. Both the legacy board
+ * and the generated base file resolve to it.
+ */
+export function getMigrationManifestFile(
+  plugin: BasesKanbanPlugin,
+  file: TFile,
+): TFile | null {
+  const manifestFile = plugin.app.vault.getAbstractFileByPath(
+    getManifestPath(file),
+  );
+  return manifestFile instanceof TFile ? manifestFile : null;
+}
+
+export async function readMigrationManifest(
+  plugin: BasesKanbanPlugin,
+  manifestFile: TFile,
+): Promise<MigrationManifest> {
+  const manifest = parseMigrationManifest(
+    await plugin.app.vault.read(manifestFile),
+  );
+  if (manifest === null) {
+    throw new Error(`Migration manifest is not readable: ${manifestFile.path}`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Undo a migration: restore the previous frontmatter of updated notes,
+ * trash created files and remove created folders that are now empty.
+ */
+export async function revertLegacyKanbanMigration(
+  plugin: BasesKanbanPlugin,
+  manifestFile: TFile,
+): Promise<void> {
+  const manifest = await readMigrationManifest(plugin, manifestFile);
+  const { vault, fileManager } = plugin.app;
+
+  let restoredCount = 0;
+  for (const update of manifest.updatedFiles) {
+    const file = vault.getAbstractFileByPath(update.path);
+    if (!(file instanceof TFile)) {
+      continue;
+    }
+
+    await fileManager.processFrontMatter(file, (frontmatter: unknown) => {
+      if (!isRecord(frontmatter)) {
+        return;
+      }
+
+      for (const key of update.addedKeys) {
+        delete frontmatter[key];
+      }
+      for (const [key, value] of Object.entries(update.previousValues)) {
+        frontmatter[key] = value;
+      }
+    });
+    restoredCount += 1;
+  }
+
+  let removedCount = 0;
+  for (const path of manifest.createdFiles) {
+    const file = vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      await fileManager.trashFile(file);
+      removedCount += 1;
+    }
+  }
+
+  const foldersDeepestFirst = [...manifest.createdFolders].sort(
+    (left, right) => right.length - left.length,
+  );
+  for (const path of foldersDeepestFirst) {
+    const folder = vault.getAbstractFileByPath(path);
+    if (folder instanceof TFolder && folder.children.length === 0) {
+      await fileManager.trashFile(folder);
+    }
+  }
+
+  await fileManager.trashFile(manifestFile);
+
+  new Notice(
+    `Legacy Kanban migration reverted: ${removedCount} files removed, ${restoredCount} notes restored.`,
+  );
+}
@@ -1,14 +1,156 @@
+import {
+  extractLegacyInlineMetadata,
+  extractLegacyLinks,
+} from "./inline-metadata";
 import type {
   LegacyKanbanBoard,
   LegacyKanbanCard,
   LegacyKanbanLane,
+  LegacyKanbanMetadataKey,
+  LegacyKanbanSettings,
 } from "./types";
 
+export const LEGACY_SETTINGS_MARKER = "%% kanban:settings";
+
 const HEADING_REGEX = /^##\s+(.+)$/;
-const CARD_REGEX = /^\s*-\s*\[[ xX]\]\s+(.+)$/;
+const ARCHIVE_SEPARATOR_REGEX = /^\*{3,}\s*$/;
+const CARD_REGEX = /^\s*-\s*\[([ xX])\]\s+(.+)$/;
 const FULL_WIKILINK_REGEX = /^\[\[([^\]|#]+)(?:#[^\]|]+)?(?:\|[^\]]+)?\]\]$/;
 
-function normalizeTitle(cardText: string): string {
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(record: UnknownRecord, key: string): string | null {
+  const value = record[key];
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function readNumber(record: UnknownRecord, key: string): number | null {
+  const value = record[key];
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string" && value.trim().length > 0) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  return null;
+}
+
+function readBoolean(record: UnknownRecord, key: string): boolean | null {
+  const value = record[key];
+  return typeof value === "boolean" ? value : null;
+}
+
+function readMetadataKeys(record: UnknownRecord): LegacyKanbanMetadataKey[] {
+  const value = record["metadata-keys"];
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const metadataKeys: LegacyKanbanMetadataKey[] = [];
+  for (const item of value) {
+    if (!isRecord(item)) {
+      continue;
+    }
+
+    const metadataKey = readString(item, "metadataKey");
+    if (metadataKey === null) {
+      continue;
+    }
+
+    metadataKeys.push({ metadataKey, label: readString(item, "label") });
+  }
+
+  return metadataKeys;
+}
+
+function createEmptySettings(): LegacyKanbanSettings {
+  return {
+    laneWidth: null,
+    dateFormat: null,
+    timeFormat: null,
+    dateTrigger: null,
+    timeTrigger: null,
+    showCheckboxes: null,
+    archiveWithDate: null,
+    archiveDateFormat: null,
+    hideTagsInTitle: null,
+    hideDateInTitle: null,
+    metadataKeys: [],
+  };
+}
+
+function extractSettingsJson(markdown: string): string | null {
+  const markerIndex = markdown.indexOf(LEGACY_SETTINGS_MARKER);
+  if (markerIndex === -1) {
+    return null;
+  }
+
+  const afterMarker = markdown.slice(
+    markerIndex + LEGACY_SETTINGS_MARKER.length,
+  );
+  const closingIndex = afterMarker.indexOf("\n%%");
+  const block =
+    closingIndex === -1 ? afterMarker : afterMarker.slice(0, closingIndex);
+  const json = block
+    .trim()
+    .replace(/^```[^\n]*\n?/, "")
+    .replace(/```$/, "")
+    .trim();
+  return json.length > 0 ? json : null;
+}
+
+/**
+ * Parse the JSON payload of the `%% kanban:settings` block.
+ * Unknown or malformed values are reported as null instead of failing.
+ */
+export function parseLegacyKanbanSettings(
+  markdown: string,
+): LegacyKanbanSettings {
+  const settings = createEmptySettings();
+  const json = extractSettingsJson(markdown);
+  if (json === null) {
+    return settings;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json) as unknown;
+  } catch {
+    return settings;
+  }
+
+  if (!isRecord(parsed)) {
+    return settings;
+  }
+
+  return {
+    laneWidth: readNumber(parsed, "lane-width"),
+    dateFormat: readString(parsed, "date-format"),
+    timeFormat: readString(parsed, "time-format"),
+    dateTrigger: readString(parsed, "date-trigger"),
+    timeTrigger: readString(parsed, "time-trigger"),
+    showCheckboxes: readBoolean(parsed, "show-checkboxes"),
+    archiveWithDate: readBoolean(parsed, "archive-with-date"),
+    archiveDateFormat: readString(parsed, "archive-date-format"),
+    hideTagsInTitle: readBoolean(parsed, "hide-tags-in-title"),
+    hideDateInTitle: readBoolean(parsed, "hide-date-in-title"),
+    metadataKeys: readMetadataKeys(parsed),
+  };
+}
+
+export function normalizeTitle(cardText: string): string {
   const withoutLinks = cardText.replace(
     /\[\[([^\]|#]+)(?:#[^\]|]+)?(?:\|([^\]]+))?\]\]/g,
     (_match, target: string, alias?: string) => (alias ?? target).trim(),
@@ -21,17 +163,23 @@ function normalizeTitle(cardText: string): string {
   return stripped.length > 0 ? stripped : cardText.trim();
 }
 
-function parseCard(line: string): LegacyKanbanCard | null {
+function parseCard(
+  line: string,
+  settings: LegacyKanbanSettings,
+): LegacyKanbanCard | null {
   const match = line.match(CARD_REGEX);
   if (match === null) {
     return null;
   }
 
-  const text = match[1].trim();
-  if (text.length === 0) {
+  const rawText = match[2].trim();
+  if (rawText.length === 0) {
     return null;
   }
 
+  const metadata = extractLegacyInlineMetadata(rawText, settings);
+  const text = metadata.text.length > 0 ? metadata.text : rawText;
+
   const linkMatch = text.match(FULL_WIKILINK_REGEX);
   const linkTarget = linkMatch === null ? null : linkMatch[1].trim();
 
@@ -39,31 +187,75 @@ function parseCard(line: string): LegacyKanbanCard | null {
     text,
     title: normalizeTitle(text),
     linkTarget,
+    checked: match[1] !== " ",
+    date: metadata.date,
+    time: metadata.time,
+    tags: metadata.tags,
+    links: [],
+    properties: {},
   };
 }
 
-function isIndentedContinuationLine(line: string): boolean {
-  return /^\s+\S/.test(line);
+function getIndentWidth(line: string): number {
+  return (line.match(/^\s*/)?.[0] ?? "").replace(/\t/g, "    ").length;
+}
+
+function isIndentedContinuationLine(line: string, cardIndent: number): boolean {
+  return line.trim().length > 0 && getIndentWidth(line) > cardIndent;
 }
 
-function normalizeContinuationLine(line: string): string {
-  return line.replace(/^\s+/, "").trimEnd();
+/**
+ * Strip the indentation shared by all continuation lines so nested lists
+ * and task lists keep their relative structure in the note body.
+ */
+export function dedentContinuationLines(lines: string[]): string[] {
+  const indents = lines
+    .filter((line) => line.trim().length > 0)
+    .map((line) => getIndentWidth(line));
+  const commonIndent = indents.length === 0 ? 0 : Math.min(...indents);
+  return lines.map((line) =>
+    line
+      .replace(/^\s*/, (indent) =>
+        " ".repeat(
+          Math.max(0, indent.replace(/\t/g, "    ").length - commonIndent),
+        ),
+      )
+      .trimEnd(),
+  );
 }
 
 export function parseLegacyKanbanMarkdown(markdown: string): LegacyKanbanBoard {
+  const settings = parseLegacyKanbanSettings(markdown);
   const lines = markdown.split(/\r?\n/);
   const lanes: LegacyKanbanLane[] = [];
   let currentLane: LegacyKanbanLane | null = null;
+  let archive: LegacyKanbanLane | null = null;
+  let isAfterArchiveSeparator = false;
 
   for (let index = 0; index < lines.length; index += 1) {
     const line = lines[index] ?? "";
+    if (line.trim().startsWith(LEGACY_SETTINGS_MARKER)) {
+      break;
+    }
+
+    if (ARCHIVE_SEPARATOR_REGEX.test(line)) {
+      isAfterArchiveSeparator = true;
+      currentLane = null;
+      continue;
+    }
+
     const headingMatch = line.match(HEADING_REGEX);
     if (headingMatch !== null) {
       currentLane = {
         name: headingMatch[1].trim(),
         cards: [],
       };
-      lanes.push(currentLane);
+      // The legacy plugin writes the archive as the first heading after `***`.
+      if (isAfterArchiveSeparator && archive === null) {
+        archive = currentLane;
+      } else {
+        lanes.push(currentLane);
+      }
       continue;
     }
 
@@ -71,8 +263,9 @@ export function parseLegacyKanbanMarkdown(markdown: string): LegacyKanbanBoard {
       continue;
     }
 
-    const card = parseCard(line);
+    const card = parseCard(line, settings);
     if (card !== null) {
+      const cardIndent = getIndentWidth(line);
       const continuationLines: string[] = [];
       let pendingBlankCount = 0;
       let nextIndex = index + 1;
@@ -84,17 +277,15 @@ export function parseLegacyKanbanMarkdown(markdown: string): LegacyKanbanBoard {
           break;
         }
 
-        if (nextLine.match(CARD_REGEX) !== null) {
-          break;
-        }
-
         if (nextLine.trim().length === 0) {
           pendingBlankCount += 1;
           nextIndex += 1;
           continue;
         }
 
-        if (!isIndentedContinuationLine(nextLine)) {
+        // Deeper indented `- [ ]` lines are sub-tasks of this card, not
+        // cards of their own.
+        if (!isIndentedContinuationLine(nextLine, cardIndent)) {
           break;
         }
 
@@ -103,18 +294,21 @@ export function parseLegacyKanbanMarkdown(markdown: string): LegacyKanbanBoard {
           pendingBlankCount -= 1;
         }
 
-        continuationLines.push(normalizeContinuationLine(nextLine));
+        continuationLines.push(nextLine);
         nextIndex += 1;
       }
 
       if (continuationLines.length > 0) {
-        card.text = `${card.text}\n${continuationLines.join("\n")}`;
+        card.text = `${card.text}\n${dedentContinuationLines(continuationLines).join("\n")}`;
       }
 
+      card.links = extractLegacyLinks(card.text).filter(
+        (link) => link.external || link.target !== card.linkTarget,
+      );
       currentLane.cards.push(card);
       index = nextIndex - 1;
     }
   }
 
-  return { lanes };
+  return { lanes, archive, settings };
 }
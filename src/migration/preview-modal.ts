@@ -0,0 +1,249 @@
+import { type App, Modal } from "obsidian";
+
+import type {
+  MigrationCardAction,
+  MigrationPlan,
+  MigrationPlanCard,
+} from "./types";
+
+const ACTION_LABELS: Record<MigrationCardAction, string> = {
+  create: "Create",
+  update: "Update",
+  skip: "Skip",
+};
+
+function countSelected(
+  plan: MigrationPlan,
+  action: MigrationCardAction,
+): number {
+  let count = 0;
+  for (const lane of plan.lanes) {
+    for (const plannedCard of lane.cards) {
+      if (plannedCard.selected && plannedCard.action === action) {
+        count += 1;
+      }
+    }
+  }
+  return count;
+}
+
+function countCards(plan: MigrationPlan): number {
+  return plan.lanes.reduce((total, lane) => total + lane.cards.length, 0);
+}
+
+/**
+ * Cards that link to existing notes can update one of those notes instead of
+ * creating a new one next to the board.
+ */
+function renderTargetSelect(
+  containerEl: HTMLElement,
+  plannedCard: MigrationPlanCard,
+  createPath: string,
+  onChange: () => void,
+): void {
+  const selectEl = containerEl.createEl("select", {
+    cls: "dropdown bases-kanban-migration-preview-target",
+  });
+  selectEl.createEl("option", {
+    text: `New note: ${createPath}`,
+    value: "",
+  });
+  for (const linkedNotePath of plannedCard.linkedNotePaths) {
+    selectEl.createEl("option", {
+      text: `Existing note: ${linkedNotePath}`,
+      value: linkedNotePath,
+    });
+  }
+
+  selectEl.addEventListener("change", () => {
+    const linkedNotePath = selectEl.value;
+    plannedCard.action = linkedNotePath.length > 0 ? "update" : "create";
+    plannedCard.targetPath =
+      linkedNotePath.length > 0 ? linkedNotePath : createPath;
+    onChange();
+  });
+}
+
+/**
+ * Show every lane and card of a planned migration and let the user deselect
+ * what should not be migrated. Selection changes are written back to `plan`.
+ * Resolves to true when the user confirms.
+ */
+export function openMigrationPreviewModal(
+  app: App,
+  plan: MigrationPlan,
+  cancelButtonText: string,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const modal = new Modal(app);
+    let resolved = false;
+
+    const finish = (value: boolean): void => {
+      if (resolved) {
+        return;
+      }
+      resolved = true;
+      resolve(value);
+    };
+
+    modal.titleEl.setText(
+      plan.resync
+        ? `Re-sync "${plan.boardPath}"`
+        : `Migrate "${plan.boardPath}"`,
+    );
+    modal.contentEl.addClass("bases-kanban-migration-preview");
+    modal.contentEl.createEl("p", {
+      text: plan.resync
+        ? `This board was migrated before. Matching notes are updated and ${plan.basePath} is kept as is.`
+        : `Base file: ${plan.basePath}`,
+    });
+    const summaryEl = modal.contentEl.createEl("p");
+    const listEl = modal.contentEl.createDiv({
+      cls: "bases-kanban-migration-preview-list",
+    });
+
+    const laneCheckboxUpdaters: Array<() => void> = [];
+    let confirmButton: HTMLButtonElement | null = null;
+
+    const updateSummary = (): void => {
+      const createCount = countSelected(plan, "create");
+      const updateCount = countSelected(plan, "update");
+      const skipCount = countCards(plan) - createCount - updateCount;
+      summaryEl.setText(
+        `${createCount} to create, ${updateCount} to update, ${skipCount} skipped.`,
+      );
+      for (const updateLaneCheckbox of laneCheckboxUpdaters) {
+        updateLaneCheckbox();
+      }
+      if (confirmButton !== null) {
+        confirmButton.disabled = createCount + updateCount === 0;
+      }
+    };
+
+    for (const lane of plan.lanes) {
+      const laneEl = listEl.createDiv({
+        cls: "bases-kanban-migration-preview-lane",
+      });
+      const selectableCards = lane.cards.filter(
+        (plannedCard) => plannedCard.action !== "skip",
+      );
+
+      const laneLabelEl = laneEl.createEl("label", {
+        cls: "bases-kanban-migration-preview-lane-header",
+      });
+      const laneCheckbox = laneLabelEl.createEl("input", { type: "checkbox" });
+      laneCheckbox.disabled = selectableCards.length === 0;
+      laneLabelEl.createSpan({
+        text: lane.archived ? `${lane.name} (archive)` : lane.name,
+      });
+      laneLabelEl.createSpan({
+        cls: "bases-kanban-migration-preview-muted",
+        text: String(lane.cards.length),
+      });
+
+      const cardCheckboxes: Array<{
+        plannedCard: MigrationPlanCard;
+        checkbox: HTMLInputElement;
+      }> = [];
+      const cardListEl = laneEl.createEl("ul");
+      for (const plannedCard of lane.cards) {
+        const cardEl = cardListEl.createEl("li");
+        const cardLabelEl = cardEl.createEl("label");
+        const checkbox = cardLabelEl.createEl("input", { type: "checkbox" });
+        checkbox.checked = plannedCard.selected;
+        checkbox.disabled = plannedCard.action === "skip";
+        const actionEl = cardLabelEl.createSpan({
+          cls: `bases-kanban-migration-preview-action mod-${plannedCard.action}`,
+          text: ACTION_LABELS[plannedCard.action],
+        });
+        cardLabelEl.createSpan({
+          text:
+            plannedCard.card.title.length > 0
+              ? plannedCard.card.title
+              : "(empty card)",
+        });
+        if (
+          plannedCard.action === "create" &&
+          plannedCard.targetPath !== null &&
+          plannedCard.linkedNotePaths.length > 0
+        ) {
+          renderTargetSelect(
+            cardEl,
+            plannedCard,
+            plannedCard.targetPath,
+            () => {
+              actionEl.removeClass("mod-create", "mod-update");
+              actionEl.addClass(`mod-${plannedCard.action}`);
+              actionEl.setText(ACTION_LABELS[plannedCard.action]);
+              updateSummary();
+            },
+          );
+        } else if (plannedCard.targetPath !== null) {
+          cardEl.createDiv({
+            cls: "bases-kanban-migration-preview-muted",
+            text: plannedCard.targetPath,
+          });
+        }
+
+        checkbox.addEventListener("change", () => {
+          plannedCard.selected = checkbox.checked;
+          updateSummary();
+        });
+        cardCheckboxes.push({ plannedCard, checkbox });
+      }
+
+      laneCheckboxUpdaters.push(() => {
+        const selectedCount = selectableCards.filter(
+          (plannedCard) => plannedCard.selected,
+        ).length;
+        laneCheckbox.checked =
+          selectableCards.length > 0 &&
+          selectedCount === selectableCards.length;
+        laneCheckbox.indeterminate =
+          selectedCount > 0 && selectedCount < selectableCards.length;
+      });
+
+      laneCheckbox.addEventListener("change", () => {
+        for (const { plannedCard, checkbox } of cardCheckboxes) {
+          if (plannedCard.action === "skip") {
+            continue;
+          }
+          plannedCard.selected = laneCheckbox.checked;
+          checkbox.checked = laneCheckbox.checked;
+        }
+        updateSummary();
+      });
+    }
+
+    const buttonContainer = modal.contentEl.createDiv({
+      cls: "modal-button-container",
+    });
+
+    const cancelButton = buttonContainer.createEl("button", {
+      text: cancelButtonText,
+      cls: "mod-secondary",
+    });
+    cancelButton.addEventListener("click", () => {
+      finish(false);
+      modal.close();
+    });
+
+    confirmButton = buttonContainer.createEl("button", {
+      text: plan.resync ? "Re-sync" : "Migrate",
+      cls: "mod-cta",
+    });
+    confirmButton.addEventListener("click", () => {
+      finish(true);
+      modal.close();
+    });
+
+    updateSummary();
+
+    modal.onClose = () => {
+      modal.contentEl.empty();
+      finish(false);
+    };
+
+    modal.open();
+  });
+}
@@ -0,0 +1,171 @@
+import { parse, stringify } from "yaml";
+
+export type MigrationTemplateValues = {
+  title: string;
+  lane: string;
+  board: string;
+  body: string;
+  cardDate: string | null;
+  cardTime: string | null;
+};
+
+/** How `{{date}}` and `{{time}}` are rendered, as in the core Templates plugin. */
+export type TemplateDateFormats = {
+  dateFormat: string;
+  timeFormat: string;
+  /** Format the current moment with a moment.js format string. */
+  formatNow: (format: string) => string;
+};
+
+const PLACEHOLDER_REGEX = /\{\{\s*([A-Za-z]+)(?::([^}]*))?\s*\}\}/g;
+const PLACEHOLDER_TOKEN_REGEX = /__migration_placeholder_(\d+)__/g;
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n?---(?:\r?\n|$)/;
+
+/**
+ * Fill the placeholders of a migration template. `{{date}}` and `{{time}}`
+ * take an optional format (`{{date:YYYY-MM-DD}}`); other unknown
+ * placeholders are left untouched.
+ */
+export function renderMigrationTemplate(
+  template: string,
+  values: MigrationTemplateValues,
+  dates: TemplateDateFormats,
+): string {
+  return template.replace(
+    PLACEHOLDER_REGEX,
+    (placeholder, name: string, format: string | undefined) => {
+      const customFormat = format?.trim() ?? "";
+      if (name === "date" || name === "time") {
+        const defaultFormat =
+          name === "date" ? dates.dateFormat : dates.timeFormat;
+        return dates.formatNow(
+          customFormat.length > 0 ? customFormat : defaultFormat,
+        );
+      }
+      if (
+        format !== undefined ||
+        !Object.prototype.hasOwnProperty.call(values, name)
+      ) {
+        return placeholder;
+      }
+
+      return values[name as keyof MigrationTemplateValues] ?? "";
+    },
+  );
+}
+
+function renderFrontmatterValue(
+  value: unknown,
+  render: (text: string) => string,
+): unknown {
+  if (typeof value === "string") {
+    return render(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderFrontmatterValue(item, render));
+  }
+  return value;
+}
+
+function mapFrontmatterStrings(
+  frontmatter: Record<string, unknown>,
+  render: (text: string) => string,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(frontmatter).map(([key, value]) => [
+      key,
+      renderFrontmatterValue(value, render),
+    ]),
+  );
+}
+
+/**
+ * Split a template into its frontmatter, parsed as data, and its body.
+ * Throws when the frontmatter is not a YAML mapping, so a broken template
+ * is reported before any note is created.
+ */
+export function splitTemplateFrontmatter(template: string): {
+  frontmatter: Record<string, unknown>;
+  body: string;
+} {
+  const match = template.match(FRONTMATTER_REGEX);
+  if (match === null) {
+    return { frontmatter: {}, body: template };
+  }
+
+  // Placeholders are swapped for plain tokens while parsing, so an unquoted
+  // `{{lane}}` is read as text rather than as a YAML mapping.
+  const placeholders: string[] = [];
+  const yaml = match[1].replace(PLACEHOLDER_REGEX, (placeholder) => {
+    placeholders.push(placeholder);
+    return `__migration_placeholder_${placeholders.length - 1}__`;
+  });
+  let parsed: unknown;
+  try {
+    parsed = parse(yaml);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Template frontmatter is not valid YAML: ${message}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    parsed = {};
+  }
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Template frontmatter is not a list of properties");
+  }
+
+  const restore = (text: string): string =>
+    text.replace(
+      PLACEHOLDER_TOKEN_REGEX,
+      (token, index: string) => placeholders[Number(index)] ?? token,
+    );
+  return {
+    frontmatter: mapFrontmatterStrings(
+      parsed as Record<string, unknown>,
+      restore,
+    ),
+    body: template.slice(match[0].length),
+  };
+}
+
+function serializeFrontmatter(frontmatter: Record<string, unknown>): string {
+  const yaml = stringify(frontmatter, {
+    aliasDuplicateObjects: false,
+    lineWidth: 0,
+  });
+  return `---\n${yaml.trimEnd()}\n---\n`;
+}
+
+/**
+ * Note content for a migrated card built from a template. Placeholders in
+ * the template's frontmatter are filled as data, so card text cannot break
+ * the YAML, and the migration properties are merged on top.
+ */
+export function renderMigrationNote(
+  template: string,
+  values: MigrationTemplateValues,
+  dates: TemplateDateFormats,
+  frontmatter: Record<string, unknown>,
+): string {
+  const split = splitTemplateFrontmatter(template);
+  const render = (text: string): string =>
+    renderMigrationTemplate(text, values, dates);
+  const templateFrontmatter = mapFrontmatterStrings(split.frontmatter, render);
+
+  return (
+    serializeFrontmatter({ ...templateFrontmatter, ...frontmatter }) +
+    render(split.body)
+  );
+}
+
+/**
+ * Note content with the given frontmatter. Keys come from CSV headers and
+ * Trello fields, so they are written through the YAML serializer rather than
+ * pasted in as text.
+ */
+export function serializeNoteContent(
+  frontmatter: Record<string, unknown>,
+  body: string,
+): string {
+  return `${serializeFrontmatter(frontmatter)}\n${body}\n`;
+}
@@ -0,0 +1,224 @@
+import { extractLegacyLinks } from "./inline-metadata";
+import { parseLegacyKanbanSettings } from "./parser";
+import type {
+  LegacyKanbanBoard,
+  LegacyKanbanCard,
+  LegacyKanbanLane,
+} from "./types";
+
+const TRELLO_ARCHIVE_LANE = "Archive";
+
+type UnknownRecord = Record<string, unknown>;
+
+type TrelloList = {
+  id: string;
+  name: string;
+  closed: boolean;
+  pos: number;
+};
+
+type TrelloChecklist = {
+  idCard: string;
+  name: string;
+  pos: number;
+  items: Array<{ name: string; complete: boolean; pos: number }>;
+};
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(record: UnknownRecord, key: string): string {
+  const value = record[key];
+  return typeof value === "string" ? value : "";
+}
+
+function readNumber(record: UnknownRecord, key: string): number {
+  const value = record[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+function readRecords(record: UnknownRecord, key: string): UnknownRecord[] {
+  const value = record[key];
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function byPosition<T extends { pos: number }>(left: T, right: T): number {
+  return left.pos - right.pos;
+}
+
+function padNumber(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Trello stores due dates in UTC; convert them to the local date and time
+ * the user saw in Trello.
+ */
+function parseTrelloDue(due: string): { date: string; time: string } | null {
+  const timestamp = Date.parse(due);
+  if (Number.isNaN(timestamp)) {
+    return null;
+  }
+
+  const value = new Date(timestamp);
+  return {
+    date: `${value.getFullYear()}-${padNumber(value.getMonth() + 1)}-${padNumber(value.getDate())}`,
+    time: `${padNumber(value.getHours())}:${padNumber(value.getMinutes())}`,
+  };
+}
+
+function toTag(label: string): string {
+  return label
+    .trim()
+    .replace(/[^\p{L}\p{N}_/-]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function readLabels(card: UnknownRecord): string[] {
+  const tags: string[] = [];
+  for (const label of readRecords(card, "labels")) {
+    const name = readString(label, "name");
+    const tag = toTag(name.length > 0 ? name : readString(label, "color"));
+    if (tag.length > 0 && !/^\d+$/.test(tag) && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
+
+function readChecklists(board: UnknownRecord): TrelloChecklist[] {
+  return readRecords(board, "checklists")
+    .map((checklist) => ({
+      idCard: readString(checklist, "idCard"),
+      name: readString(checklist, "name"),
+      pos: readNumber(checklist, "pos"),
+      items: readRecords(checklist, "checkItems")
+        .map((item) => ({
+          name: readString(item, "name"),
+          complete: readString(item, "state") === "complete",
+          pos: readNumber(item, "pos"),
+        }))
+        .sort(byPosition),
+    }))
+    .sort(byPosition);
+}
+
+function buildCardBody(
+  name: string,
+  description: string,
+  checklists: TrelloChecklist[],
+): string {
+  const sections: string[] = [];
+  if (description.trim().length > 0) {
+    sections.push(description.trim());
+  }
+  for (const checklist of checklists) {
+    const lines = checklist.items.map(
+      (item) => `- [${item.complete ? "x" : " "}] ${item.name}`,
+    );
+    sections.push(
+      checklist.name.length > 0
+        ? [`### ${checklist.name}`, ...lines].join("\n")
+        : lines.join("\n"),
+    );
+  }
+
+  return sections.length > 0 ? sections.join("\n\n") : name;
+}
+
+function parseTrelloCard(
+  card: UnknownRecord,
+  checklists: TrelloChecklist[],
+): LegacyKanbanCard | null {
+  const name = readString(card, "name").trim();
+  if (name.length === 0) {
+    return null;
+  }
+
+  const cardId = readString(card, "id");
+  const due = parseTrelloDue(readString(card, "due"));
+  const text = buildCardBody(
+    name,
+    readString(card, "desc"),
+    checklists.filter((checklist) => checklist.idCard === cardId),
+  );
+  return {
+    text,
+    title: name,
+    linkTarget: null,
+    checked: card.dueComplete === true,
+    date: due?.date ?? null,
+    time: due?.time ?? null,
+    tags: readLabels(card),
+    links: extractLegacyLinks(text),
+    properties: {},
+  };
+}
+
+export function isTrelloBoardExport(content: string): boolean {
+  try {
+    const raw = JSON.parse(content) as unknown;
+    return (
+      isRecord(raw) && Array.isArray(raw.lists) && Array.isArray(raw.cards)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Map a Trello board JSON export onto the legacy board model: open lists
+ * become lanes, closed cards and cards of closed lists go to the archive.
+ */
+export function parseTrelloBoard(content: string): LegacyKanbanBoard {
+  const raw = JSON.parse(content) as unknown;
+  if (!isRecord(raw)) {
+    throw new Error("Trello export is not a JSON object.");
+  }
+
+  const lists: TrelloList[] = readRecords(raw, "lists")
+    .map((list) => ({
+      id: readString(list, "id"),
+      name: readString(list, "name").trim(),
+      closed: list.closed === true,
+      pos: readNumber(list, "pos"),
+    }))
+    .sort(byPosition);
+  const checklists = readChecklists(raw);
+
+  const lanesById = new Map<string, LegacyKanbanLane>();
+  const lanes: LegacyKanbanLane[] = [];
+  for (const list of lists) {
+    if (list.closed || list.name.length === 0) {
+      continue;
+    }
+    const lane: LegacyKanbanLane = { name: list.name, cards: [] };
+    lanesById.set(list.id, lane);
+    lanes.push(lane);
+  }
+
+  const archive: LegacyKanbanLane = { name: TRELLO_ARCHIVE_LANE, cards: [] };
+  const cards = readRecords(raw, "cards")
+    .map((card) => ({ card, pos: readNumber(card, "pos") }))
+    .sort(byPosition);
+  for (const { card } of cards) {
+    const parsedCard = parseTrelloCard(card, checklists);
+    if (parsedCard === null) {
+      continue;
+    }
+
+    const lane = lanesById.get(readString(card, "idList"));
+    if (lane === undefined || card.closed === true) {
+      archive.cards.push(parsedCard);
+    } else {
+      lane.cards.push(parsedCard);
+    }
+  }
+
+  return {
+    lanes,
+    archive: archive.cards.length > 0 ? archive : null,
+    settings: parseLegacyKanbanSettings(""),
+  };
+}
@@ -2,6 +2,19 @@ export type LegacyKanbanCard = {
   text: string;
   title: string;
   linkTarget: string | null;
+  checked: boolean;
+  date: string | null;
+  time: string | null;
+  tags: string[];
+  /** Notes and URLs mentioned anywhere on the card. */
+  links: LegacyKanbanLink[];
+  /** Extra frontmatter values, e.g. the unmapped columns of a CSV row. */
+  properties: Record<string, string>;
+};
+
+export type LegacyKanbanLink = {
+  target: string;
+  external: boolean;
 };
 
 export type LegacyKanbanLane = {
@@ -9,13 +22,81 @@ export type LegacyKanbanLane = {
   cards: LegacyKanbanCard[];
 };
 
+export type LegacyKanbanMetadataKey = {
+  metadataKey: string;
+  label: string | null;
+};
+
+export type LegacyKanbanSettings = {
+  laneWidth: number | null;
+  dateFormat: string | null;
+  timeFormat: string | null;
+  dateTrigger: string | null;
+  timeTrigger: string | null;
+  showCheckboxes: boolean | null;
+  archiveWithDate: boolean | null;
+  archiveDateFormat: string | null;
+  hideTagsInTitle: boolean | null;
+  hideDateInTitle: boolean | null;
+  metadataKeys: LegacyKanbanMetadataKey[];
+};
+
 export type LegacyKanbanBoard = {
   lanes: LegacyKanbanLane[];
+  archive: LegacyKanbanLane | null;
+  settings: LegacyKanbanSettings;
 };
 
 export type MigrationResult = {
   createdCount: number;
   updatedCount: number;
   skippedCount: number;
+  archivedCount: number;
   baseFilePath: string;
+  resynced: boolean;
+};
+
+export type MigrationCardAction = "create" | "update" | "skip";
+
+export type MigrationPlanCard = {
+  card: LegacyKanbanCard;
+  action: MigrationCardAction;
+  targetFolder: string;
+  targetPath: string | null;
+  /** Existing notes the card links to, offered instead of a new note. */
+  linkedNotePaths: string[];
+  selected: boolean;
+};
+
+export type MigrationPlanLane = {
+  name: string;
+  archived: boolean;
+  cards: MigrationPlanCard[];
+};
+
+export type MigrationPlan = {
+  boardPath: string;
+  basePath: string;
+  resync: boolean;
+  lanes: MigrationPlanLane[];
+  archiveFolder: string | null;
+  settings: LegacyKanbanSettings;
+};
+
+export type MigrationManifestUpdate = {
+  path: string;
+  previousValues: Record<string, unknown>;
+  addedKeys: string[];
+};
+
+export type MigrationManifest = {
+  version: 1;
+  boardPath: string;
+  basePath: string;
+  migratedAt: string;
+  createdFiles: string[];
+  createdFolders: string[];
+  /** Group property the board was migrated with, kept for re-syncs. */
+  groupProperty: string | null;
+  updatedFiles: MigrationManifestUpdate[];
 };
@@ -0,0 +1,176 @@
+import { type App, getAllTags, TFile } from "obsidian";
+
+import {
+  type BaseKanbanView,
+  getFrontmatterColumnValue,
+  isNoteInView,
+  type NoteSnapshot,
+  readKanbanViews,
+} from "./base-membership";
+
+/** A kanban view of a `.base` file that shows a given note. */
+export type NoteBoard = {
+  baseFile: TFile;
+  view: BaseKanbanView;
+};
+
+export function getNoteSnapshot(app: App, file: TFile): NoteSnapshot {
+  const cache = app.metadataCache.getFileCache(file);
+  const tags = cache === null ? [] : (getAllTags(cache) ?? []);
+  return {
+    path: file.path,
+    frontmatter: (cache?.frontmatter as Record<string, unknown>) ?? {},
+    tags: tags.map((tag) => tag.replace(/^#/, "")),
+  };
+}
+
+export function getNoteColumnValue(
+  app: App,
+  file: TFile,
+  board: NoteBoard,
+): string | null {
+  const frontmatter = getNoteSnapshot(app, file).frontmatter;
+  return getFrontmatterColumnValue(frontmatter[board.view.groupByKey]);
+}
+
+export async function setNoteColumn(
+  app: App,
+  file: TFile,
+  board: NoteBoard,
+  value: string | null,
+): Promise<void> {
+  const key = board.view.groupByKey;
+  await app.fileManager.processFrontMatter(
+    file,
+    (frontmatter: Record<string, unknown>) => {
+      if (value === null) {
+        delete frontmatter[key];
+      } else {
+        frontmatter[key] = value;
+      }
+    },
+  );
+}
+
+/**
+ * Kanban views of the vault's `.base` files, parsed once per file and kept
+ * until the file changes.
+ */
+export class NoteBoardIndex {
+  private readonly viewsByBasePath = new Map<string, BaseKanbanView[]>();
+
+  constructor(
+    private readonly app: App,
+    private readonly viewType: string,
+  ) {}
+
+  isBaseFile(file: unknown): file is TFile {
+    return file instanceof TFile && file.extension === "base";
+  }
+
+  invalidate(path: string): void {
+    this.viewsByBasePath.delete(path);
+  }
+
+  /**
+   * Kanban views whose filters are known to include the note, ordered by
+   * base path. The first one is the note's primary board.
+   */
+  async findNoteBoards(file: TFile): Promise<NoteBoard[]> {
+    const note = getNoteSnapshot(this.app, file);
+    const boards: NoteBoard[] = [];
+    for (const baseFile of this.getBaseFiles()) {
+      for (const view of await this.getViews(baseFile)) {
+        if (isNoteInView(view, note)) {
+          boards.push({ baseFile, view });
+        }
+      }
+    }
+    return boards;
+  }
+
+  /**
+   * `findNoteBoards` over the base files read so far, for menus and command
+   * checks that cannot wait. Base files not read yet are loaded in the
+   * background and count on the next call.
+   */
+  findLoadedNoteBoards(file: TFile): NoteBoard[] {
+    const note = getNoteSnapshot(this.app, file);
+    const boards: NoteBoard[] = [];
+    for (const baseFile of this.getBaseFiles()) {
+      const views = this.viewsByBasePath.get(baseFile.path);
+      if (views === undefined) {
+        void this.getViews(baseFile);
+        continue;
+      }
+      for (const view of views) {
+        if (isNoteInView(view, note)) {
+          boards.push({ baseFile, view });
+        }
+      }
+    }
+    return boards;
+  }
+
+  /**
+   * Columns of each board without opening it: the saved column order first,
+   * then values found on other notes the board shows. The vault is scanned
+   * once for all boards.
+   */
+  getBoardColumns(boards: NoteBoard[]): Map<NoteBoard, string[]> {
+    const scans = boards.map((board) => ({
+      board,
+      knownColumns: new Set(board.view.columnOrder),
+      foundColumns: [] as string[],
+    }));
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const note = getNoteSnapshot(this.app, file);
+      for (const { board, knownColumns, foundColumns } of scans) {
+        const value = getFrontmatterColumnValue(
+          note.frontmatter[board.view.groupByKey],
+        );
+        if (
+          value !== null &&
+          !knownColumns.has(value) &&
+          isNoteInView(board.view, note)
+        ) {
+          knownColumns.add(value);
+          foundColumns.push(value);
+        }
+      }
+    }
+
+    return new Map(
+      scans.map(({ board, foundColumns }) => [
+        board,
+        [
+          ...board.view.columnOrder,
+          ...foundColumns.sort((left, right) =>
+            left.localeCompare(right, undefined, { numeric: true }),
+          ),
+        ],
+      ]),
+    );
+  }
+
+  private getBaseFiles(): TFile[] {
+    return this.app.vault
+      .getFiles()
+      .filter((candidate) => this.isBaseFile(candidate))
+      .sort((left, right) => left.path.localeCompare(right.path));
+  }
+
+  private async getViews(baseFile: TFile): Promise<BaseKanbanView[]> {
+    const cached = this.viewsByBasePath.get(baseFile.path);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const views = readKanbanViews(
+      await this.app.vault.cachedRead(baseFile),
+      this.viewType,
+    );
+    this.viewsByBasePath.set(baseFile.path, views);
+    return views;
+  }
+}
@@ -46,7 +46,15 @@ export interface BasesKanbanSettings {
 
   // Migration
   migrationGroupProperty: string;
+  migrationCheckedProperty: string;
+  migrationDateProperty: string;
+  migrationRelatedProperty: string;
+  migrationTemplatePath: string;
   migrationQueryProperty: string;
+  migrationArchiveMode: "skip" | "property" | "folder";
+  migrationArchiveProperty: string;
+  /** Legacy boards for which the migration prompt was turned off. */
+  migrationPromptDismissedPaths: string[];
 }
 
 export const DEFAULT_SETTINGS: BasesKanbanSettings = {
@@ -94,7 +102,14 @@ export const DEFAULT_SETTINGS: BasesKanbanSettings = {
 
   // Migration
   migrationGroupProperty: "status",
+  migrationCheckedProperty: "done",
+  migrationDateProperty: "due",
+  migrationRelatedProperty: "related",
+  migrationTemplatePath: "",
   migrationQueryProperty: "legacyKanbanSource",
+  migrationArchiveMode: "property",
+  migrationArchiveProperty: "archived",
+  migrationPromptDismissedPaths: [],
 };
 
 export class KanbanSettingTab extends PluginSettingTab {
@@ -616,6 +631,69 @@ export class KanbanSettingTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(containerEl)
+      .setName("Migration checked property")
+      .setDesc(
+        "Checkbox property that stores whether the legacy card was checked. Leave empty to skip.",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Property name")
+          .setValue(this.plugin.settings.migrationCheckedProperty)
+          .onChange(async (value) => {
+            this.plugin.settings.migrationCheckedProperty = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Migration date property")
+      .setDesc(
+        "Date property that receives legacy @{date} and @@{time} values",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Property name")
+          .setValue(this.plugin.settings.migrationDateProperty)
+          .onChange(async (value) => {
+            this.plugin.settings.migrationDateProperty =
+              value.trim().length === 0
+                ? DEFAULT_SETTINGS.migrationDateProperty
+                : value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Migration related property")
+      .setDesc(
+        "List property that collects the links mentioned on a legacy card. Leave empty to skip.",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Property name")
+          .setValue(this.plugin.settings.migrationRelatedProperty)
+          .onChange(async (value) => {
+            this.plugin.settings.migrationRelatedProperty = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Migration note template")
+      .setDesc(
+        "Template for notes created from legacy cards, as a path or a note name in the templates folder. Supports {{title}}, {{lane}}, {{board}}, {{body}}, {{cardDate}}, {{cardTime}}, {{date}} and {{time}}. Leave empty to use the card text.",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Template note")
+          .setValue(this.plugin.settings.migrationTemplatePath)
+          .onChange(async (value) => {
+            this.plugin.settings.migrationTemplatePath = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
     new Setting(containerEl)
       .setName("Migration query property")
       .setDesc("Property used to filter all notes migrated from one board")
@@ -631,6 +709,42 @@ export class KanbanSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           }),
       );
+
+    new Setting(containerEl)
+      .setName("Archived cards")
+      .setDesc("How cards from the legacy archive section are migrated")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("skip", "Skip archived cards")
+          .addOption("property", "Migrate with archive property")
+          .addOption("folder", "Migrate into archive folder")
+          .setValue(this.plugin.settings.migrationArchiveMode)
+          .onChange(async (value) => {
+            this.plugin.settings.migrationArchiveMode = value as
+              | "skip"
+              | "property"
+              | "folder";
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Migration archive property")
+      .setDesc(
+        "Checkbox property set on archived cards. The generated base hides notes where it is true.",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Property name")
+          .setValue(this.plugin.settings.migrationArchiveProperty)
+          .onChange(async (value) => {
+            this.plugin.settings.migrationArchiveProperty =
+              value.trim().length === 0
+                ? DEFAULT_SETTINGS.migrationArchiveProperty
+                : value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
   }
 
   private getHexColorValue(color: string): string {
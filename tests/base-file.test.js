@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { parse } from "yaml";
+
+import {
+  containsExpression,
+  equalsExpression,
+  formatPropertyReference,
+  listContainsExpression,
+  serializeBaseFile,
+} from "../src/base-file";
+
+describe("base file builder", () => {
+  test("references awkward property names with the bracket form", () => {
+    expect(formatPropertyReference("status")).toBe("status");
+    expect(formatPropertyReference("due date")).toBe('note["due date"]');
+    expect(containsExpression("board: main", 'Say "hi".md')).toBe(
+      'note["board: main"].contains("Say \\"hi\\".md")',
+    );
+    expect(listContainsExpression("board", "Board.md")).toBe(
+      'list(board).contains("Board.md")',
+    );
+    expect(equalsExpression("archived", true)).toBe("archived == true");
+  });
+
+  test("serializes views with plugin options as valid YAML", () => {
+    const filters = {
+      and: [containsExpression("board", "Board: #1.md"), { not: ["a == 1"] }],
+    };
+    const content = serializeBaseFile({
+      views: [
+        {
+          type: "cumban",
+          name: "All: cards",
+          filters,
+          groupBy: { property: "lane: name", direction: "DESC" },
+          order: ["file.name", "lane: name"],
+          options: { columnOrder: "To do,Done", columnWidth: 300 },
+        },
+        { type: "table", name: "Grid", filters },
+      ],
+    });
+
+    expect(parse(content)).toEqual({
+      views: [
+        {
+          type: "cumban",
+          name: "All: cards",
+          filters,
+          groupBy: { property: "lane: name", direction: "DESC" },
+          order: ["file.name", "lane: name"],
+          columnOrder: "To do,Done",
+          columnWidth: 300,
+        },
+        { type: "table", name: "Grid", filters },
+      ],
+    });
+    expect(content.includes("*")).toBe(false);
+  });
+});
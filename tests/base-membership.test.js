@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  evaluateFilter,
+  getNotePropertyKey,
+  getRequiredFrontmatter,
+  isNoteInView,
+  readKanbanViews,
+} from "../src/base-membership";
+
+describe("base membership", () => {
+  const note = {
+    path: "Projects/Cards/Task.md",
+    frontmatter: { board: ["Projects/Board.md"], status: "Doing", due: 3 },
+    tags: ["work/urgent"],
+  };
+
+  test("reads kanban views with their group-by key and column order", () => {
+    const content = [
+      "filters:",
+      "  and:",
+      '    - file.inFolder("Projects")',
+      "views:",
+      "  - type: table",
+      "    name: Grid",
+      "  - type: cumban",
+      "    name: All",
+      "    groupBy:",
+      "      property: note.status",
+      "      direction: DESC",
+      "    filters:",
+      "      and:",
+      '        - list(board).contains("Projects/Board.md")',
+      "    columnOrder: Todo,__bases_kanban_no_value__,Doing",
+      "  - type: cumban",
+      "    name: By file",
+      "    groupBy:",
+      "      property: file.folder",
+    ].join("\n");
+
+    const views = readKanbanViews(content, "cumban");
+
+    expect(views.length).toBe(1);
+    expect(views[0]).toMatchObject({
+      name: "All",
+      groupByKey: "status",
+      columnOrder: ["Todo", "Doing"],
+    });
+    expect(views[0].filters.length).toBe(2);
+    expect(isNoteInView(views[0], note)).toBe(true);
+    expect(isNoteInView(views[0], { ...note, path: "Other/Task.md" })).toBe(
+      false,
+    );
+  });
+
+  test("evaluates the expressions the plugin writes", () => {
+    expect(evaluateFilter('status == "Doing"', note)).toBe(true);
+    expect(evaluateFilter("due != 3", note)).toBe(false);
+    expect(evaluateFilter('note["status"].contains("oin")', note)).toBe(true);
+    expect(evaluateFilter('file.hasTag("work")', note)).toBe(true);
+    expect(evaluateFilter({ not: ['status == "Done"'] }, note)).toBe(true);
+  });
+
+  test("treats unknown expressions as unknown", () => {
+    expect(evaluateFilter("file.mtime > now()", note)).toBeNull();
+    expect(
+      evaluateFilter({ and: ["file.mtime > now()", "due == 4"] }, note),
+    ).toBe(false);
+    expect(
+      evaluateFilter({ or: ["file.mtime > now()", "due == 4"] }, note),
+    ).toBeNull();
+    expect(getNotePropertyKey("formula.score")).toBeNull();
+    expect(getNotePropertyKey('note["due date"]')).toBe("due date");
+    expect(getNotePropertyKey('note["bad\\q"]')).toBeNull();
+    expect(evaluateFilter('status == "\\d"', note)).toBeNull();
+  });
+
+  test("derives the frontmatter a new note needs from the filters", () => {
+    const filters = [
+      {
+        and: [
+          'list(legacyKanbanSource).contains("Roadmap.md")',
+          'note["board type"] == "project"',
+          { not: ['file.inFolder("Roadmap/Archive")'] },
+        ],
+      },
+      { or: ['status == "Doing"'] },
+      'tags.contains("work")',
+    ];
+
+    expect(getRequiredFrontmatter(filters)).toEqual({
+      legacyKanbanSource: ["Roadmap.md"],
+      "board type": "project",
+      tags: ["work"],
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  parseColumnLimits,
+  serializeColumnLimits,
+} from "../src/kanban-view/state-persistence";
+
+const emptyCache = { limits: null, raw: "" };
+
+function parseLimits(configValue) {
+  return parseColumnLimits(configValue, emptyCache).limits;
+}
+
+describe("column limits", () => {
+  test("reads positive integer limits", () => {
+    expect(parseLimits('{"Todo":3,"Doing":1}')).toEqual(
+      new Map([
+        ["Todo", 3],
+        ["Doing", 1],
+      ]),
+    );
+  });
+
+  test("ignores invalid JSON and non-object values", () => {
+    expect(parseLimits("{Todo: 3")).toEqual(new Map());
+    expect(parseLimits("[3]")).toEqual(new Map());
+    expect(parseLimits("3")).toEqual(new Map());
+    expect(parseLimits(undefined)).toEqual(new Map());
+  });
+
+  test("drops non-positive and non-integer limits", () => {
+    expect(
+      parseLimits('{"Todo":0,"Doing":-2,"Review":1.5,"Done":"4","Later":2}'),
+    ).toEqual(new Map([["Later", 2]]));
+  });
+
+  test("reuses the cache for the same config", () => {
+    const first = parseColumnLimits('{"Todo":3}', emptyCache);
+    const second = parseColumnLimits('{"Todo":3}', first.cache);
+
+    expect(second.limits).toBe(first.limits);
+  });
+
+  test("round-trips through serialize", () => {
+    const limits = new Map([
+      ["Todo", 3],
+      ["In, progress", 2],
+    ]);
+
+    expect(parseLimits(serializeColumnLimits(limits))).toEqual(limits);
+    expect(serializeColumnLimits(new Map())).toBe("");
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+
+import { parseCsv, serializeCsv } from "../src/csv";
+import { getCsvHeaders, parseCsvBoard } from "../src/migration/csv-board";
+
+describe("csv", () => {
+  test("parses quoted fields, escaped quotes and line breaks", () => {
+    const content =
+      '\uFEFFtitle,notes\r\n"Plan, then ship","Say ""hi""\nsoon"\r\n\r\nLast,\n';
+
+    expect(parseCsv(content)).toEqual([
+      ["title", "notes"],
+      ["Plan, then ship", 'Say "hi"\nsoon'],
+      ["Last", ""],
+    ]);
+  });
+
+  test("round-trips serialized rows", () => {
+    const rows = [
+      ["title", "status"],
+      ['Quote "me"', "To do, later"],
+    ];
+
+    expect(parseCsv(serializeCsv(rows))).toEqual(rows);
+  });
+
+  test("maps rows to lanes and properties", () => {
+    const content = [
+      "Name,Stage,Owner,Tags",
+      "Write spec,Doing,Ann,docs #urgent",
+      "Review,To do,,",
+      "Ship,Doing,Bo,",
+      ",Doing,Nobody,",
+    ].join("\n");
+
+    expect(getCsvHeaders(content)).toEqual(["Name", "Stage", "Owner", "Tags"]);
+
+    const board = parseCsvBoard(content, {
+      titleColumn: "Name",
+      groupColumn: "Stage",
+    });
+
+    expect(board.lanes.map((lane) => lane.name)).toEqual(["Doing", "To do"]);
+    expect(board.lanes[0]?.cards.map((card) => card.title)).toEqual([
+      "Write spec",
+      "Ship",
+    ]);
+    expect(board.lanes[0]?.cards[0]?.properties).toEqual({ Owner: "Ann" });
+    expect(board.lanes[0]?.cards[0]?.tags).toEqual(["docs", "urgent"]);
+    expect(board.lanes[1]?.cards[0]?.properties).toEqual({});
+  });
+
+  test("puts rows without a group value in a named lane", () => {
+    const board = parseCsvBoard(
+      ["Name,Stage", "Triage,", "Plan,Doing"].join("\n"),
+      {
+        titleColumn: "Name",
+        groupColumn: "Stage",
+      },
+    );
+
+    expect(board.lanes.map((lane) => lane.name)).toEqual(["No Stage", "Doing"]);
+    expect(board.lanes[0]?.cards.map((card) => card.title)).toEqual(["Triage"]);
+  });
+});
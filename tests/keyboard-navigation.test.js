@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  getNavigationDirection,
+  getNextFocusedPath,
+} from "../src/kanban-view/keyboard-navigation";
+
+describe("keyboard navigation", () => {
+  const grid = [
+    [["a1", "a2", "a3"], [], ["c1"]],
+    [["d1"], ["e1"], []],
+  ];
+
+  test("maps HJKL and arrow keys, ignoring shift", () => {
+    expect(getNavigationDirection("H")).toBe("left");
+    expect(getNavigationDirection("ArrowDown")).toBe("down");
+    expect(getNavigationDirection("x")).toBeNull();
+  });
+
+  test("skips empty columns and clamps the row", () => {
+    expect(getNextFocusedPath(grid, "a3", "right")).toBe("c1");
+    expect(getNextFocusedPath(grid, "c1", "left")).toBe("a1");
+    expect(getNextFocusedPath(grid, "c1", "right")).toBe("c1");
+  });
+
+  test("continues into the same column of the next swimlane", () => {
+    expect(getNextFocusedPath(grid, "a2", "down")).toBe("a3");
+    expect(getNextFocusedPath(grid, "a3", "down")).toBe("d1");
+    expect(getNextFocusedPath(grid, "d1", "up")).toBe("a3");
+    expect(getNextFocusedPath(grid, "e1", "up")).toBe("e1");
+  });
+
+  test("starts at the first card without a cursor", () => {
+    expect(getNextFocusedPath(grid, null, "down")).toBe("a1");
+    expect(getNextFocusedPath(grid, "gone.md", "left")).toBe("a1");
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, expect, test } from "bun:test";
 
+import { parse } from "yaml";
+
 import { buildMigratedBaseFileContent } from "../src/migration/base-file";
 
 describe("buildMigratedBaseFileContent", () => {
@@ -13,8 +15,99 @@ describe("buildMigratedBaseFileContent", () => {
     expect(content.includes("type: cumban")).toBe(true);
     expect(content.includes("type: table")).toBe(true);
     expect(
-      content.includes('legacyKanbanSource.contains("old-kanban.md")'),
+      content.includes('list(legacyKanbanSource).contains("old-kanban.md")'),
     ).toBe(true);
     expect(content.includes("property: status")).toBe(true);
   });
+
+  test("writes group properties with spaces as note property ids", () => {
+    const parsed = parse(
+      buildMigratedBaseFileContent(
+        "legacyKanbanSource",
+        "Roadmap.md",
+        "Projects/Roadmap status",
+        { extraProperties: ["due date"] },
+      ),
+    );
+
+    expect(parsed.views[0].groupBy.property).toBe(
+      "note.Projects/Roadmap status",
+    );
+    expect(parsed.views[0].order).toEqual([
+      "file.name",
+      "note.Projects/Roadmap status",
+      "legacyKanbanSource",
+      "note.due date",
+    ]);
+    expect(parsed.views[1].sort[1].property).toBe(
+      "note.Projects/Roadmap status",
+    );
+    expect(parsed.views[0].filters.and[0]).toBe(
+      'list(legacyKanbanSource).contains("Roadmap.md")',
+    );
+  });
+
+  test("writes legacy view options into the cumban view", () => {
+    const content = buildMigratedBaseFileContent(
+      "legacyKanbanSource",
+      "old-kanban.md",
+      "status",
+      { columnWidth: 320, extraProperties: ["done", "status"] },
+    );
+
+    expect(content.includes("    columnWidth: 320")).toBe(true);
+    expect(content.includes("      - done")).toBe(true);
+    expect(content.split("      - status").length - 1).toBe(2);
+  });
+
+  test("excludes archived notes through a not filter", () => {
+    const content = buildMigratedBaseFileContent(
+      "legacyKanbanSource",
+      "old-kanban.md",
+      "status",
+      { excludeExpressions: ['file.inFolder("old-kanban/Archive")'] },
+    );
+
+    expect(content.includes("        - not:")).toBe(true);
+    expect(
+      content.includes('            - file.inFolder("old-kanban/Archive")'),
+    ).toBe(true);
+  });
+
+  test("keeps legacy lane and card order in the cumban view", () => {
+    const content = buildMigratedBaseFileContent(
+      "legacyKanbanSource",
+      "old-kanban.md",
+      "status",
+      {
+        columnOrder: ["Todo", "Done"],
+        localCardOrder: new Map([
+          ["Todo", ["old-kanban/b.md", "old-kanban/a.md"]],
+          ["Done", []],
+        ]),
+      },
+    );
+
+    const kanbanView = parse(content).views[0];
+
+    expect(kanbanView.columnOrder).toBe("Todo,Done");
+    expect(JSON.parse(kanbanView.localCardOrder)).toEqual({
+      Todo: ["old-kanban/b.md", "old-kanban/a.md"],
+    });
+  });
+
+  test("sorts the table view by the group property", () => {
+    const content = buildMigratedBaseFileContent(
+      "legacyKanbanSource",
+      "old-kanban.md",
+      "stage",
+    );
+
+    const tableView = parse(content).views[1];
+
+    expect(tableView.sort).toEqual([
+      { property: "file.mtime", direction: "DESC" },
+      { property: "stage", direction: "ASC" },
+    ]);
+  });
 });
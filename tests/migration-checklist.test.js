@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  getChecklistGroupValue,
+  getChecklistItemTitle,
+  parseMarkdownChecklist,
+  parseTodoTxt,
+  relocateChecklistItems,
+  replaceChecklistItems,
+} from "../src/migration/checklist";
+
+describe("checklist import", () => {
+  test("reads top-level tasks with their heading and nested lines", () => {
+    const content = [
+      "---",
+      "tags: [plan]",
+      "---",
+      "## Later",
+      "- [ ] (B) Write [[Spec]] draft",
+      "\t- [ ] outline",
+      "",
+      "    details",
+      "- [x] [[Already linked]]",
+      "```",
+      "- [ ] code sample",
+      "```",
+      "## Done",
+      "* [x] Ship #release",
+    ].join("\n");
+
+    const items = parseMarkdownChecklist(content);
+
+    expect(items.length).toBe(2);
+    expect(items[0]).toMatchObject({
+      text: "Write [[Spec]] draft",
+      body: "- [ ] outline\n\ndetails",
+      checked: false,
+      heading: "Later",
+      priority: "B",
+      prefix: "- [ ] (B) ",
+      startLine: 4,
+      endLine: 7,
+    });
+    expect(getChecklistItemTitle(items[0])).toBe("Write Spec draft");
+    expect(items[1]).toMatchObject({
+      checked: true,
+      heading: "Done",
+      prefix: "* [x] ",
+    });
+  });
+
+  test("reads todo.txt priorities, dates and completion", () => {
+    const items = parseTodoTxt(
+      [
+        "(A) 2024-05-01 Call Mom +family @phone",
+        "x 2024-05-03 2024-05-01 Pay rent pri:B",
+        "",
+      ].join("\n"),
+    );
+
+    expect(items.map((item) => item.text)).toEqual([
+      "Call Mom +family @phone",
+      "Pay rent",
+    ]);
+    expect(items.map((item) => item.priority)).toEqual(["A", "B"]);
+    expect(items[1]?.checked).toBe(true);
+    expect(items[1]?.prefix).toBe("x 2024-05-03 2024-05-01 ");
+  });
+
+  test("maps items to columns and replaces them with links", () => {
+    const content = "- [ ] One\n  nested\n- [x] Two\nafter";
+    const items = parseMarkdownChecklist(content);
+    const mapping = { source: "checkbox", openValue: "Todo", doneValue: "" };
+
+    expect(getChecklistGroupValue(items[0], mapping)).toBe("Todo");
+    expect(getChecklistGroupValue(items[1], mapping)).toBeNull();
+    expect(
+      replaceChecklistItems(content, [
+        { item: items[0], linkText: "Cards/One" },
+        { item: items[1], linkText: "Two" },
+      ]),
+    ).toBe("- [ ] [[Cards/One]]\n- [x] [[Two]]\nafter");
+  });
+
+  test("finds items again after the source was edited", () => {
+    const items = parseMarkdownChecklist("- [ ] One\n- [ ] Two\n- [ ] Three");
+    const edited = "# Added\n- [ ] Two\n- [x] One\n  note";
+
+    const relocated = relocateChecklistItems(edited, "markdown", items);
+
+    expect(relocated.map((item) => item?.startLine ?? null)).toEqual([
+      2,
+      1,
+      null,
+    ]);
+    expect(
+      replaceChecklistItems(edited, [
+        { item: relocated[0], linkText: "One" },
+        { item: relocated[1], linkText: "Two" },
+      ]),
+    ).toBe("# Added\n- [ ] [[Two]]\n- [x] [[One]]");
+  });
+});
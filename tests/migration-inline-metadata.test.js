@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  extractLegacyInlineMetadata,
+  extractLegacyLinks,
+  parseLegacyDate,
+  parseLegacyTime,
+} from "../src/migration/inline-metadata";
+import { parseLegacyKanbanSettings } from "../src/migration/parser";
+
+const defaultSettings = parseLegacyKanbanSettings("");
+
+describe("legacy inline metadata", () => {
+  test("extracts date, time and tags from the card text", () => {
+    const result = extractLegacyInlineMetadata(
+      "Ship release @{2024-05-01} @@{10:00} #work #urgent",
+      defaultSettings,
+    );
+
+    expect(result.text).toBe("Ship release");
+    expect(result.date).toBe("2024-05-01");
+    expect(result.time).toBe("10:00");
+    expect(result.tags).toEqual(["work", "urgent"]);
+  });
+
+  test("uses the board date format and linked daily notes", () => {
+    const settings = { ...defaultSettings, dateFormat: "DD.MM.YYYY" };
+    const result = extractLegacyInlineMetadata(
+      "Call @[[01.05.2024]]",
+      settings,
+    );
+
+    expect(result.text).toBe("Call");
+    expect(result.date).toBe("2024-05-01");
+  });
+
+  test("keeps tokens that cannot be parsed", () => {
+    const result = extractLegacyInlineMetadata(
+      "Plan @{next week} #123 [[Note#Heading]]",
+      defaultSettings,
+    );
+
+    expect(result.text).toBe("Plan @{next week} #123 [[Note#Heading]]");
+    expect(result.date).toBeNull();
+    expect(result.tags).toEqual([]);
+  });
+
+  test("keeps a time token in the text when there is no date", () => {
+    const result = extractLegacyInlineMetadata(
+      "Standup @@{10:00} #daily",
+      defaultSettings,
+    );
+
+    expect(result.text).toBe("Standup @@{10:00}");
+    expect(result.date).toBeNull();
+    expect(result.time).toBeNull();
+    expect(result.tags).toEqual(["daily"]);
+  });
+
+  test("parses legacy date and time values", () => {
+    expect(parseLegacyDate("5/1/24", "M/D/YY")).toBe("2024-05-01");
+    expect(parseLegacyDate("2024-13-01", "YYYY-MM-DD")).toBeNull();
+    expect(parseLegacyDate("2024-02-31", "YYYY-MM-DD")).toBeNull();
+    expect(parseLegacyDate("2024-02-29", "YYYY-MM-DD")).toBe("2024-02-29");
+    expect(parseLegacyTime("3:05 pm")).toBe("15:05");
+    expect(parseLegacyTime("25:00")).toBeNull();
+  });
+
+  test("collects wikilinks and Markdown links in order", () => {
+    const links = extractLegacyLinks(
+      "See [docs](https://example.com/docs), [[Spec#Scope|spec]] and " +
+        "[notes](Meeting%20notes.md#Agenda). ![[diagram.png]] [[Spec]]",
+    );
+
+    expect(links).toEqual([
+      { target: "https://example.com/docs", external: true },
+      { target: "Spec", external: false },
+      { target: "Meeting notes", external: false },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  serializeLegacyKanbanMarkdown,
+  serializeMarkdownChecklist,
+} from "../src/migration/legacy-export";
+import { parseLegacyKanbanMarkdown } from "../src/migration/parser";
+
+describe("serializeLegacyKanbanMarkdown", () => {
+  test("writes lanes that the legacy parser reads back", () => {
+    const markdown = serializeLegacyKanbanMarkdown([
+      {
+        name: "To do",
+        cards: [
+          { text: "[[Projects/Spec|Spec]]", checked: false },
+          { text: "[[Release]]", checked: true },
+        ],
+      },
+      { name: "Done", cards: [] },
+    ]);
+
+    const board = parseLegacyKanbanMarkdown(markdown);
+
+    expect(markdown.startsWith("---\n\nkanban-plugin: board\n\n---\n")).toBe(
+      true,
+    );
+    expect(board.lanes.map((lane) => lane.name)).toEqual(["To do", "Done"]);
+    expect(
+      board.lanes[0]?.cards.map((card) => [card.linkTarget, card.checked]),
+    ).toEqual([
+      ["Projects/Spec", false],
+      ["Release", true],
+    ]);
+    expect(board.archive).toBeNull();
+  });
+
+  test("ends with a settings block", () => {
+    const markdown = serializeLegacyKanbanMarkdown([
+      { name: "Line\nbreak", cards: [] },
+    ]);
+
+    expect(markdown.includes("## Line break")).toBe(true);
+    expect(
+      markdown.endsWith(
+        '%% kanban:settings\n```\n{"kanban-plugin":"board","list-collapse":[false]}\n```\n%%',
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("serializeMarkdownChecklist", () => {
+  test("writes a task list per column and skips empty columns", () => {
+    const checklist = serializeMarkdownChecklist([
+      { name: "Doing", cards: [{ text: "[[Spec]]", checked: false }] },
+      { name: "Later", cards: [] },
+      { name: "Done", cards: [{ text: "[[Release]]", checked: true }] },
+    ]);
+
+    expect(checklist).toBe(
+      "### Doing\n\n- [ ] [[Spec]]\n\n### Done\n\n- [x] [[Release]]\n",
+    );
+  });
+});
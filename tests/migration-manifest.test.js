@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  createMigrationManifest,
+  getMigrationManifestPath,
+  parseMigrationManifest,
+  recordMigrationUpdate,
+  serializeMigrationManifest,
+} from "../src/migration/manifest";
+
+describe("migration manifest", () => {
+  test("resolves the manifest next to the board", () => {
+    expect(getMigrationManifestPath("Projects", "Board")).toBe(
+      "Projects/Board.migration.json",
+    );
+    expect(getMigrationManifestPath("/", "Board")).toBe("Board.migration.json");
+  });
+
+  test("round-trips recorded changes", () => {
+    const manifest = createMigrationManifest("Board.md", "Board.base");
+    manifest.createdFiles.push("Board/Task.md", "Board.base");
+    manifest.createdFolders.push("Board");
+    manifest.updatedFiles.push({
+      path: "Notes/Spec.md",
+      previousValues: { status: "Later", tags: ["docs"] },
+      addedKeys: ["legacyKanbanSource"],
+    });
+
+    const parsed = parseMigrationManifest(serializeMigrationManifest(manifest));
+
+    expect(parsed).toEqual(manifest);
+  });
+
+  test("rejects content that is not a manifest", () => {
+    expect(parseMigrationManifest("not json")).toBeNull();
+    expect(parseMigrationManifest('{"version":2}')).toBeNull();
+  });
+
+  test("keeps the earliest recorded frontmatter on re-sync", () => {
+    const manifest = createMigrationManifest("Board.md", "Board.base");
+    manifest.createdFiles.push("Board/Task.md");
+    recordMigrationUpdate(manifest, {
+      path: "Notes/Spec.md",
+      previousValues: { status: "Later" },
+      addedKeys: [],
+    });
+    recordMigrationUpdate(manifest, {
+      path: "Notes/Spec.md",
+      previousValues: { status: "Doing" },
+      addedKeys: [],
+    });
+    recordMigrationUpdate(manifest, {
+      path: "Board/Task.md",
+      previousValues: { status: "Todo" },
+      addedKeys: [],
+    });
+
+    expect(manifest.updatedFiles).toEqual([
+      {
+        path: "Notes/Spec.md",
+        previousValues: { status: "Later" },
+        addedKeys: [],
+      },
+    ]);
+  });
+
+  test("records keys a re-sync adds for the first time", () => {
+    const manifest = createMigrationManifest("Board.md", "Board.base");
+    recordMigrationUpdate(manifest, {
+      path: "Notes/Spec.md",
+      previousValues: { status: "Later" },
+      addedKeys: ["kanban"],
+    });
+    recordMigrationUpdate(manifest, {
+      path: "Notes/Spec.md",
+      previousValues: { status: "Doing", archived: false },
+      addedKeys: ["kanban", "related"],
+    });
+
+    expect(manifest.updatedFiles).toEqual([
+      {
+        path: "Notes/Spec.md",
+        previousValues: { status: "Later", archived: false },
+        addedKeys: ["kanban", "related"],
+      },
+    ]);
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, expect, test } from "bun:test";
 
-import { parseLegacyKanbanMarkdown } from "../src/migration/parser";
+import {
+  parseLegacyKanbanMarkdown,
+  parseLegacyKanbanSettings,
+} from "../src/migration/parser";
 
 describe("parseLegacyKanbanMarkdown", () => {
   test("parses lanes and cards with links", () => {
@@ -52,6 +55,30 @@ describe("parseLegacyKanbanMarkdown", () => {
     expect(result.lanes[0]?.cards[0]?.text).toBe("duplicated are great\n\n\nmeow");
   });
 
+  test("keeps nested sub-tasks as a task list in the card body", () => {
+    const markdown = [
+      "## doing",
+      "",
+      "- [ ] release",
+      "    - [x] changelog",
+      "    - [ ] publish",
+      "        - [ ] npm",
+      "    notes",
+      "- [x] next card",
+    ].join("\n");
+
+    const result = parseLegacyKanbanMarkdown(markdown);
+
+    expect(result.lanes[0]?.cards.map((card) => card.title)).toEqual([
+      "release",
+      "next card",
+    ]);
+    expect(result.lanes[0]?.cards[0]?.text).toBe(
+      "release\n- [x] changelog\n- [ ] publish\n    - [ ] npm\nnotes",
+    );
+    expect(result.lanes[0]?.cards[0]?.checked).toBe(false);
+  });
+
   test("does not treat embedded wikilinks as linked-note cards", () => {
     const markdown = ["## todo", "", "- [ ] real [[partial]] link note"].join("\n");
 
@@ -61,4 +88,130 @@ describe("parseLegacyKanbanMarkdown", () => {
     expect(result.lanes[0]?.cards[0]?.title).toBe("real partial link note");
     expect(result.lanes[0]?.cards[0]?.linkTarget).toBeNull();
   });
+
+  test("keeps checkbox state of legacy cards", () => {
+    const markdown = [
+      "## done",
+      "",
+      "- [x] finished task",
+      "- [X] shouted task",
+      "- [ ] open task",
+    ].join("\n");
+
+    const result = parseLegacyKanbanMarkdown(markdown);
+
+    expect(result.lanes[0]?.cards.map((card) => card.checked)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+    expect(result.lanes[0]?.cards[0]?.title).toBe("finished task");
+  });
+
+  test("separates the archive section from regular lanes", () => {
+    const markdown = [
+      "## todo",
+      "",
+      "- [ ] open task",
+      "",
+      "***",
+      "",
+      "## Archive",
+      "",
+      "- [x] old task",
+      "- [x] older task",
+    ].join("\n");
+
+    const result = parseLegacyKanbanMarkdown(markdown);
+
+    expect(result.lanes.map((lane) => lane.name)).toEqual(["todo"]);
+    expect(result.archive?.name).toBe("Archive");
+    expect(result.archive?.cards.map((card) => card.title)).toEqual([
+      "old task",
+      "older task",
+    ]);
+  });
+
+  test("reports no archive when the separator is missing", () => {
+    const result = parseLegacyKanbanMarkdown("## Archive\n\n- [ ] task");
+
+    expect(result.lanes.length).toBe(1);
+    expect(result.archive).toBeNull();
+  });
+
+  test("moves inline metadata out of the card title", () => {
+    const markdown = ["## todo", "", "- [ ] [[Spec]] @{2024-05-01} #docs"].join(
+      "\n",
+    );
+
+    const card = parseLegacyKanbanMarkdown(markdown).lanes[0]?.cards[0];
+
+    expect(card?.title).toBe("Spec");
+    expect(card?.linkTarget).toBe("Spec");
+    expect(card?.date).toBe("2024-05-01");
+    expect(card?.tags).toEqual(["docs"]);
+  });
+
+  test("lists card links other than the card note", () => {
+    const markdown = [
+      "## todo",
+      "",
+      "- [ ] [[Spec]]",
+      "\tDepends on [[API]] and [[Spec#Scope]], see [board](https://example.com)",
+    ].join("\n");
+
+    const card = parseLegacyKanbanMarkdown(markdown).lanes[0]?.cards[0];
+
+    expect(card?.links).toEqual([
+      { target: "API", external: false },
+      { target: "https://example.com", external: true },
+    ]);
+  });
+});
+
+describe("parseLegacyKanbanSettings", () => {
+  test("reads typed values from the settings block", () => {
+    const markdown = [
+      "## todo",
+      "",
+      "- [ ] task",
+      "",
+      "%% kanban:settings",
+      "```",
+      JSON.stringify({
+        "kanban-plugin": "board",
+        "lane-width": 330,
+        "date-format": "DD.MM.YYYY",
+        "show-checkboxes": true,
+        "metadata-keys": [
+          { metadataKey: "priority", label: "Priority" },
+          { label: "missing key" },
+        ],
+      }),
+      "```",
+      "%%",
+    ].join("\n");
+
+    const settings = parseLegacyKanbanSettings(markdown);
+
+    expect(settings.laneWidth).toBe(330);
+    expect(settings.dateFormat).toBe("DD.MM.YYYY");
+    expect(settings.showCheckboxes).toBe(true);
+    expect(settings.timeFormat).toBeNull();
+    expect(settings.metadataKeys).toEqual([
+      { metadataKey: "priority", label: "Priority" },
+    ]);
+    expect(parseLegacyKanbanMarkdown(markdown).settings.laneWidth).toBe(330);
+  });
+
+  test("falls back to empty settings for malformed payloads", () => {
+    const markdown = ["%% kanban:settings", "```", "{not json", "```", "%%"].join(
+      "\n",
+    );
+
+    const settings = parseLegacyKanbanSettings(markdown);
+
+    expect(settings.laneWidth).toBeNull();
+    expect(settings.metadataKeys).toEqual([]);
+  });
 });
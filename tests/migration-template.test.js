@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import { parse } from "yaml";
+
+import {
+  renderMigrationNote,
+  renderMigrationTemplate,
+  serializeNoteContent,
+  splitTemplateFrontmatter,
+} from "../src/migration/template";
+
+const dates = {
+  dateFormat: "YYYY-MM-DD",
+  timeFormat: "HH:mm",
+  formatNow: (format) => `now(${format})`,
+};
+
+const values = {
+  title: "Ship release",
+  lane: "Doing",
+  board: "Boards/Roadmap.md",
+  body: "- [ ] tag $&",
+  cardDate: "2024-05-01",
+  cardTime: null,
+};
+
+describe("renderMigrationTemplate", () => {
+  test("fills card placeholders and core Templates dates", () => {
+    const template = [
+      "# {{title}}",
+      "Lane: {{ lane }} on {{board}}",
+      "Due: {{cardDate}} {{cardTime}}",
+      "Created: {{date}} {{time}} {{date:DD.MM.YYYY}}",
+      "Other: {{unknown}}",
+      "",
+      "{{body}}",
+    ].join("\n");
+
+    const content = renderMigrationTemplate(template, values, dates);
+
+    expect(content).toBe(
+      [
+        "# Ship release",
+        "Lane: Doing on Boards/Roadmap.md",
+        "Due: 2024-05-01 ",
+        "Created: now(YYYY-MM-DD) now(HH:mm) now(DD.MM.YYYY)",
+        "Other: {{unknown}}",
+        "",
+        "- [ ] tag $&",
+      ].join("\n"),
+    );
+  });
+
+  test("fills frontmatter placeholders as data and merges properties", () => {
+    const template = [
+      "---",
+      "type: card",
+      "lane: {{lane}}",
+      "aliases:",
+      '  - "{{title}}"',
+      "---",
+      "# {{title}}",
+      "",
+    ].join("\n");
+
+    const content = renderMigrationNote(
+      template,
+      { ...values, title: 'Fix: "quotes" #1\nnext', lane: "a: b" },
+      dates,
+      { status: "a: b", kanban: ["Board.md"] },
+    );
+    const [, yaml, body] = content.split(/^---$/m);
+
+    expect(parse(yaml)).toEqual({
+      type: "card",
+      lane: "a: b",
+      aliases: ['Fix: "quotes" #1\nnext'],
+      status: "a: b",
+      kanban: ["Board.md"],
+    });
+    expect(body).toBe('\n# Fix: "quotes" #1\nnext\n');
+  });
+
+  test("rejects templates with broken frontmatter", () => {
+    expect(() => splitTemplateFrontmatter("---\na: [b\n---\nbody")).toThrow(
+      "Template frontmatter is not valid YAML",
+    );
+    expect(splitTemplateFrontmatter("No frontmatter").body).toBe(
+      "No frontmatter",
+    );
+  });
+
+  test("writes frontmatter keys with special characters as valid YAML", () => {
+    const frontmatter = {
+      "a: b": "x",
+      "#x": ["one", "two: three"],
+      "- foo": true,
+      status: 'Say "hi"',
+    };
+
+    const content = serializeNoteContent(frontmatter, "Body");
+    const [, yaml, body] = content.split(/^---$/m);
+
+    expect(parse(yaml)).toEqual(frontmatter);
+    expect(body).toBe("\n\nBody\n");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+
+import { isTrelloBoardExport, parseTrelloBoard } from "../src/migration/trello";
+
+const exportJson = JSON.stringify({
+  name: "Team board",
+  lists: [
+    { id: "l2", name: "Doing", closed: false, pos: 2 },
+    { id: "l1", name: "To do", closed: false, pos: 1 },
+    { id: "l3", name: "Old", closed: true, pos: 3 },
+  ],
+  cards: [
+    {
+      id: "c2",
+      name: "Second",
+      desc: "",
+      idList: "l1",
+      closed: false,
+      pos: 2,
+      labels: [],
+    },
+    {
+      id: "c1",
+      name: "Write spec",
+      desc: "Cover the edge cases.",
+      idList: "l1",
+      closed: false,
+      pos: 1,
+      due: "2024-05-01T12:00:00.000Z",
+      dueComplete: true,
+      labels: [
+        { name: "Needs review", color: "red" },
+        { name: "", color: "green" },
+      ],
+    },
+    { id: "c3", name: "Done long ago", idList: "l2", closed: true, pos: 1 },
+    { id: "c4", name: "In closed list", idList: "l3", closed: false, pos: 1 },
+  ],
+  checklists: [
+    {
+      id: "k1",
+      idCard: "c1",
+      name: "Steps",
+      pos: 1,
+      checkItems: [
+        { name: "Publish", state: "incomplete", pos: 2 },
+        { name: "Draft", state: "complete", pos: 1 },
+      ],
+    },
+  ],
+});
+
+describe("parseTrelloBoard", () => {
+  test("maps open lists to lanes in board order", () => {
+    const board = parseTrelloBoard(exportJson);
+
+    expect(board.lanes.map((lane) => lane.name)).toEqual(["To do", "Doing"]);
+    expect(board.lanes[0]?.cards.map((card) => card.title)).toEqual([
+      "Write spec",
+      "Second",
+    ]);
+  });
+
+  test("maps description, checklists, labels and due dates", () => {
+    const card = parseTrelloBoard(exportJson).lanes[0]?.cards[0];
+
+    expect(card?.text).toBe(
+      "Cover the edge cases.\n\n### Steps\n- [x] Draft\n- [ ] Publish",
+    );
+    expect(card?.tags).toEqual(["Needs-review", "green"]);
+    expect(card?.date).toBe("2024-05-01");
+    expect(card?.checked).toBe(true);
+  });
+
+  test("moves closed cards and cards of closed lists to the archive", () => {
+    const board = parseTrelloBoard(exportJson);
+
+    expect(board.archive?.cards.map((card) => card.title)).toEqual([
+      "Done long ago",
+      "In closed list",
+    ]);
+  });
+
+  test("recognizes Trello exports", () => {
+    expect(isTrelloBoardExport(exportJson)).toBe(true);
+    expect(isTrelloBoardExport('{"lists": []}')).toBe(false);
+    expect(isTrelloBoardExport("not json")).toBe(false);
+  });
+});
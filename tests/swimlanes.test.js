@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+
+import { NO_VALUE_COLUMN_KEY } from "../src/kanban-view/constants";
+import { groupSwimlanes } from "../src/kanban-view/swimlanes";
+
+const getKey = (value) =>
+  value === null || value === undefined ? NO_VALUE_COLUMN_KEY : String(value);
+
+function entry(path, assignee) {
+  return {
+    file: { path },
+    getValue: (property) => (property === "note.assignee" ? assignee : null),
+  };
+}
+
+function paths(group) {
+  return group.entries.map((item) => item.file.path);
+}
+
+describe("swimlanes", () => {
+  const alice = ["[[Alice]]"];
+  const groups = [
+    {
+      group: { key: "Todo" },
+      entries: [
+        entry("a.md", "Bob"),
+        entry("b.md", null),
+        entry("c.md", alice),
+      ],
+    },
+    { group: { key: "Done" }, entries: [entry("d.md", "Bob")] },
+  ];
+
+  test("sorts rows by value with the empty row last", () => {
+    const swimlanes = groupSwimlanes(groups, "note.assignee", getKey);
+
+    expect(swimlanes.map((swimlane) => swimlane.key)).toEqual([
+      "[[Alice]]",
+      "Bob",
+      NO_VALUE_COLUMN_KEY,
+    ]);
+  });
+
+  test("keeps every column in each row", () => {
+    const [aliceRow, bobRow, emptyRow] = groupSwimlanes(
+      groups,
+      "note.assignee",
+      getKey,
+    );
+
+    expect(bobRow.groups.map(paths)).toEqual([["a.md"], ["d.md"]]);
+    expect(aliceRow.groups.map(paths)).toEqual([["c.md"], []]);
+    expect(emptyRow.groups.map(paths)).toEqual([["b.md"], []]);
+  });
+
+  test("keeps the row's original value", () => {
+    const [aliceRow, , emptyRow] = groupSwimlanes(
+      groups,
+      "note.assignee",
+      getKey,
+    );
+
+    expect(aliceRow.value).toBe(alice);
+    expect(emptyRow.value).toBeNull();
+  });
+
+  test("has one empty row for a board without cards", () => {
+    const swimlanes = groupSwimlanes(
+      [{ group: { key: "Todo" }, entries: [] }],
+      "note.assignee",
+      getKey,
+    );
+
+    expect(swimlanes).toEqual([
+      {
+        key: NO_VALUE_COLUMN_KEY,
+        value: null,
+        groups: [{ group: { key: "Todo" }, entries: [] }],
+      },
+    ]);
+  });
+});